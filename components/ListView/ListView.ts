@@ -68,6 +68,7 @@ namespace drunk {
         private _isFirstRender: boolean = true;
 
         private _items: ItemDeclaration[] = [];
+        private _patchedDataSource: any[];
         private _itemsMap = new Map<ItemDeclaration[]>();
         private _bind: drunk.IBindingGenerator;
         private _unbinds: Function[] = [];
@@ -106,10 +107,24 @@ namespace drunk {
                 if (!this._itemContainer || !this._isActived) {
                     return;
                 }
+                if (this._patchedDataSource) {
+                    let patchedDataSource = this._patchedDataSource;
+                    this._patchedDataSource = null;
+
+                    if (patchedDataSource === newValue) {
+                        // 已经根据数组变更记录更新过了
+                        return;
+                    }
+                }
                 this._inited = false;
                 this._updateItems();
                 this._renderItems();
-            }, true);
+            }, {
+                deep: true,
+                changes: (changes, itemDataSource) => {
+                    this._patchItems(changes, itemDataSource);
+                }
+            });
 
             this.$watch('scrollToItem', () => {
                 this._updateScrollPosition();
@@ -327,14 +342,7 @@ namespace drunk {
 
             if (itemDataSource && itemDataSource.length) {
                 this._items = itemDataSource.map((itemData, index) => {
-                    return this._getItem({
-                        $index: index,
-                        $item: itemData,
-                        $first: index === 0,
-                        $last: index === itemDataSource.length - 1,
-                        $odd: index % 2 === 0,
-                        $even: index % 2 !== 0
-                    });
+                    return this._getItem(this._createItemData(itemData, index, itemDataSource.length));
                 });
 
                 this._releaseItems(items.filter(item => !item.isUsed));
@@ -346,6 +354,69 @@ namespace drunk {
             }
         }
 
+        /**
+         * 根据数组的变更记录只更新受影响的item,变更记录与当前数据对不上时交给_updateItems做完整的更新
+         */
+        private _patchItems(changes: observable.IArrayChange[], itemDataSource: any[]) {
+            if (!this._itemContainer || !this._isActived || !this._items.length) {
+                return;
+            }
+
+            let values = this._items.map(item => item.viewmodel['$item']);
+            changes.forEach(change => values.splice(change.index, change.removed.length, ...change.added));
+
+            if (values.length !== itemDataSource.length || values.some((value, index) => value !== itemDataSource[index])) {
+                return;
+            }
+
+            let items = this._items.slice();
+            let removedItems: ItemDeclaration[] = [];
+            let startIndex = itemDataSource.length;
+            let length = itemDataSource.length;
+
+            items.forEach(item => item.isUsed = true);
+
+            changes.forEach(change => {
+                let index = change.index;
+
+                items.splice(index, change.removed.length).forEach(item => {
+                    // 移除的item可以被新插入的相同数据复用
+                    item.isUsed = false;
+                    removedItems.push(item);
+                });
+                items.splice(index, 0, ...change.added.map((itemData, i) => {
+                    return this._getItem(this._createItemData(itemData, index + i, length));
+                }));
+
+                startIndex = Math.min(startIndex, index);
+            });
+
+            this._releaseItems(removedItems.filter(item => !item.isUsed));
+
+            for (let i = Math.max(startIndex - 1, 0); i < items.length; i++) {
+                let itemData = this._createItemData(itemDataSource[i], i, length);
+                Object.keys(itemData).forEach(key => items[i].viewmodel[key] = itemData[key]);
+            }
+
+            items.forEach(item => item.isUsed = false);
+
+            this._items = items;
+            this._patchedDataSource = itemDataSource;
+            this._inited = false;
+            this._renderItems();
+        }
+
+        private _createItemData(itemData: any, index: number, length: number) {
+            return {
+                $index: index,
+                $item: itemData,
+                $first: index === 0,
+                $last: index === length - 1,
+                $odd: index % 2 === 0,
+                $even: index % 2 !== 0
+            };
+        }
+
         private _getItem(itemData: { $index: number; $item: any; $first: boolean; $last: boolean; $odd: boolean; $even: boolean }) {
             let items = this._itemsMap.get(itemData.$item);
             let item: ItemDeclaration;
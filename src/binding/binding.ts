@@ -13,6 +13,7 @@ namespace drunk {
         isDeepWatch?: boolean;
         isTerminal?: boolean;
         isInterpolate?: boolean;
+        hasCustomSyntax?: boolean;
         priority?: number;
         retainAttribute?: boolean;
         expression?: string;
@@ -26,6 +27,7 @@ namespace drunk {
         new (...args: any[]): Binding;
         isDeepWatch?: boolean;
         isTerminal?: boolean;
+        hasCustomSyntax?: boolean;
         priority?: number;
         retainAttribute?: boolean;
     }
@@ -127,6 +129,7 @@ namespace drunk {
                 ctor.priority = definition.priority;
                 ctor.retainAttribute = definition.retainAttribute;
                 ctor.isDeepWatch = definition.isDeepWatch;
+                ctor.hasCustomSyntax = definition.hasCustomSyntax;
                 util.extend(ctor.prototype, Binding.prototype, definition);
                 definition = ctor;
             }
@@ -280,7 +283,18 @@ namespace drunk {
 
             if (!getter.dynamic) {
                 // 如果只是一个静态表达式直接取值更新
-                return self.update(viewModel.$eval(expression, isInterpolate), undefined);
+                let value = viewModel.$eval(expression, isInterpolate);
+
+                if (util.isThenable(value)) {
+                    // 异步filter的结果,resolve后再更新
+                    return value.then(result => {
+                        if (this._isActived) {
+                            self.update(result, undefined);
+                        }
+                    });
+                }
+
+                return self.update(value, undefined);
             }
 
             this._update = (newValue, oldValue) => {
@@ -64,6 +64,7 @@ namespace drunk {
             }
 
             this.component = new ctor();
+            this._inheritFilters();
             this._processComponentAttributes();
             return this._realizeComponent();
         }
@@ -83,6 +84,7 @@ namespace drunk {
                 }
                 this.component = new Ctor();
                 this.component.element = util.toArray(fragment.childNodes);
+                this._inheritFilters();
 
                 this._processComponentAttributes();
                 return this._realizeComponent();
@@ -93,6 +95,13 @@ namespace drunk {
             });
         }
 
+        /**
+         * 子组件继承所在viewModel的filter,子组件自身注册的filter优先
+         */
+        private _inheritFilters() {
+            this.component.$filter = util.extend(Object.create(this.viewModel.$filter), this.component.$filter);
+        }
+
         /**
          * 获取双向绑定的属性名
          */
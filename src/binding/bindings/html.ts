@@ -0,0 +1,20 @@
+/// <reference path="../binding.ts" />
+/// <reference path="../../util/dom.ts" />
+/// <reference path="../../util/sanitize.ts" />
+
+namespace drunk {
+    
+    import dom = drunk.dom;
+    import Binding = drunk.Binding;
+    
+    /**
+     * 把html字符串净化后设置为元素的内容,用于显示用户生成的富文本
+     */
+    @binding("html")
+    class HtmlBinding extends Binding implements IBindingDefinition {
+
+        update(newValue: any) {
+            dom.html(this.element, newValue == null ? '' : dom.sanitize(newValue));
+        }
+    }
+}
@@ -1,6 +1,7 @@
 /// <reference path="../binding.ts" />
 /// <reference path="../../util/dom.ts" />
 /// <reference path="../../util/util.ts" />
+/// <reference path="../../filter/date.ts" />
 
 namespace drunk {
 
@@ -9,6 +10,12 @@ namespace drunk {
     import Binding = drunk.Binding;
     import binding = drunk.binding;
 
+    const dateFormats = {
+        "date": "yyyy-MM-dd",
+        "datetime-local": "yyyy-MM-ddThh:mm",
+        "month": "yyyy-MM"
+    };
+
     @binding("model")
     class ModelBinding extends Binding implements IBindingDefinition {
 
@@ -43,6 +50,11 @@ namespace drunk {
                 case "radio":
                     this.initRadio();
                     break;
+                case "date":
+                case "datetime-local":
+                case "month":
+                    this.initAsDate();
+                    break;
                 case "text":
                 case "tel":
                 case "number":
@@ -69,6 +81,12 @@ namespace drunk {
             this._getValue = this._getCommonControlValue;
         }
 
+        initAsDate() {
+            this._changedEvent = "change";
+            this._updateView = this._setDateValue;
+            this._getValue = this._getDateValue;
+        }
+
         initAsSelect() {
             this._changedEvent = "change";
             this._updateView = this._setSelectValue;
@@ -112,6 +130,25 @@ namespace drunk {
             this.element.checked = this.element.value == newValue;
         }
 
+        private _setDateValue(newValue: any) {
+            let date = Filter.parseDate(newValue);
+            this.element.value = date ? Filter.formatDate(date, dateFormats[this.element.type]) : '';
+        }
+
+        private _getDateValue() {
+            let value = this.element.value;
+            let date = Filter.parseDate(value);
+
+            // 保持和原来的数据一样的类型,Date对象或时间戳,否则使用输入框中的字符串
+            if (this.value instanceof Date) {
+                return date;
+            }
+            if (typeof this.value === 'number') {
+                return date ? date.getTime() : null;
+            }
+            return value;
+        }
+
         private _getSelectValue() {
             if (this.element.options) {
                 for (let i = 0, option; option = this.element.options[i]; i++) {
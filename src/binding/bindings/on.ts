@@ -9,26 +9,155 @@ namespace drunk {
     import config = drunk.config;
 
     const reSemic = /\s*;\s*/;
-    const reStatement = /(\w+):\s*(.+)/;
+    const reStatement = /(\w+((?:\.[\w\-]+)*)):\s*(.+)/;
     const reBreakword = /\n+/g;
 
     const getHelpMessage = () => `正确的用法如下:
         ${config.prefix}on="click: expression"
         ${config.prefix}on="mousedown: expression; mouseup: callback()"
-        ${config.prefix}on="click: callback($event, $el)"`;
+        ${config.prefix}on="click: callback($event, $el)"
+        ${config.prefix}on="submit.prevent: save(); keyup.enter: search()"`;
+
+    /**
+     * 内置的事件修饰符,其他的修饰符都作为按键修饰符
+     */
+    const eventModifiers = ['prevent', 'stop', 'once', 'self', 'passive', 'capture'];
+
+    /**
+     * 不冒泡的事件,不能使用事件代理
+     */
+    const nonBubblingEvents = ['focus', 'blur', 'load', 'unload', 'error', 'abort', 'scroll', 'resize', 'mouseenter', 'mouseleave'];
+
+    /**
+     * 容器元素上保存事件代理表的字段
+     */
+    const delegatorsKey = 'DRUNK-EVENT-DELEGATORS';
+
+    /**
+     * 注册的事件,container存在时表示通过该容器的事件代理派发
+     */
+    interface IEventDescriptor {
+        type: string;
+        handler: (e: Event) => void;
+        options: dom.IListenerOptions;
+        container?: HTMLElement;
+    }
+
+    /**
+     * 容器上某种事件的代理,count为使用该代理的事件数,为0时移除监听
+     */
+    interface IDelegator {
+        listener: (e: Event) => void;
+        count: number;
+    }
+
+    /**
+     * 在容器上添加事件代理的引用,第一次添加时注册监听
+     */
+    function addDelegator(container: HTMLElement, type: string): void {
+        let delegators: { [type: string]: IDelegator } = container[delegatorsKey] || (container[delegatorsKey] = {});
+        let delegator = delegators[type];
+
+        if (!delegator) {
+            delegator = delegators[type] = {
+                listener: (e: Event) => dispatchDelegatedEvent(container, e),
+                count: 0
+            };
+            dom.on(container, type, delegator.listener);
+        }
+
+        delegator.count++;
+    }
+
+    /**
+     * 移除容器上事件代理的引用,没有引用时移除监听
+     */
+    function removeDelegator(container: HTMLElement, type: string): void {
+        let delegators: { [type: string]: IDelegator } = container[delegatorsKey];
+        let delegator = delegators && delegators[type];
+
+        if (!delegator || --delegator.count > 0) {
+            return;
+        }
+
+        dom.off(container, type, delegator.listener);
+        delete delegators[type];
+    }
+
+    /**
+     * 从事件目标开始往上直到容器,找到每个元素上通过该容器代理的drunk-on绑定并执行,
+     * 绑定的处理函数中阻止冒泡后不再往上查找
+     */
+    function dispatchDelegatedEvent(container: HTMLElement, e: Event): void {
+        let node = <Node>e.target;
+
+        while (node && node !== container) {
+            if (Component.getByElement(node)) {
+                Binding.getByElement(node).forEach(binding => {
+                    if (binding instanceof EventBinding) {
+                        binding.dispatch(container, e);
+                    }
+                });
+            }
+
+            if (e.cancelBubble) {
+                return;
+            }
+
+            node = node.parentNode;
+        }
+    }
+
+    /**
+     * 按键修饰符的别名表,值为可以匹配的KeyboardEvent的key或keyCode
+     */
+    export var keyAliases: { [alias: string]: Array<string | number> } = {
+        enter: ['Enter', 13],
+        tab: ['Tab', 9],
+        esc: ['Escape', 'Esc', 27],
+        space: [' ', 'Spacebar', 32],
+        up: ['ArrowUp', 'Up', 38],
+        down: ['ArrowDown', 'Down', 40],
+        left: ['ArrowLeft', 'Left', 37],
+        right: ['ArrowRight', 'Right', 39],
+        delete: ['Delete', 'Del', 'Backspace', 46, 8]
+    };
+
+    /**
+     * 注册按键修饰符的别名,如registerKeyAlias('f2', ['F2', 113])后可以使用keyup.f2
+     * @param  alias  别名,使用小写
+     * @param  keys   KeyboardEvent的key或keyCode
+     */
+    export function registerKeyAlias(alias: string, keys: string | number | Array<string | number>): void {
+        keyAliases[alias.toLowerCase()] = Array.isArray(keys) ? (<Array<string | number>>keys).slice() : [<string | number>keys];
+    }
+
+    /**
+     * 判断键盘事件是否匹配按键修饰符,未注册的修饰符与event.key比较(不区分大小写)
+     */
+    function isKeyMatched(e: KeyboardEvent, modifier: string): boolean {
+        let aliases = keyAliases[modifier];
+        let key = e.key;
+
+        if (!aliases) {
+            return key != null && key.toLowerCase() === modifier;
+        }
+
+        return aliases.some(alias => typeof alias === 'number' ? e.keyCode === alias : key === alias);
+    }
 
     @binding("on")
     class EventBinding extends Binding implements IBindingDefinition {
 
-        private _events: { type: string; handler: (e: Event) => void; }[];
+        private _events: IEventDescriptor[];
 
         init() {
             var events = [];
 
             if (this.attribute) {
-                let type = this.attribute;
-                let handler = this.createHandler(type, this.expression);
-                events.push({ type, handler });
+                let modifiers = this.attribute.split('.');
+                let type = modifiers.shift();
+                events.push(this.createHandler(type, this.expression, modifiers));
             }
             else {
                 this.expression.replace(reBreakword, ' ').split(reSemic).forEach(str => {
@@ -47,31 +176,98 @@ namespace drunk {
 
             console.assert(matches !== null, `不合法的"${prefix}on"表达式 ${str}, ${getHelpMessage()}`);
 
-            let type = matches[1];
-            let expr = matches[2];
-            let handler = this.createHandler(type, expr.trim());
+            let modifiers = matches[1].split('.');
+            let type = modifiers.shift();
+            let expr = matches[3];
+
+            return this.createHandler(type, expr.trim(), modifiers);
+        }
 
-            return { type, handler };
+        /**
+         * 执行通过指定容器代理的该类型事件的处理函数
+         * @param  container  代理事件的容器
+         * @param  e          事件对象
+         */
+        dispatch(container: HTMLElement, e: Event): void {
+            this._events.slice().forEach(event => {
+                if (event.container === container && event.type === e.type && this._events) {
+                    event.handler(e);
+                }
+            });
         }
 
-        private createHandler(type: string, expression: string) {
+        /**
+         * 创建事件处理函数并注册,修饰符按顺序检查:self和按键不匹配时忽略该事件,
+         * 然后执行stop和prevent,once在第一次执行后移除监听
+         */
+        private createHandler(type: string, expression: string, modifiers: string[] = []): IEventDescriptor {
             let func = Parser.parse(expression);
+            let keys = modifiers.filter(modifier => eventModifiers.indexOf(modifier) < 0).map(modifier => modifier.toLowerCase());
+            let has = (modifier: string) => modifiers.indexOf(modifier) > -1;
+            let options: dom.IListenerOptions = { capture: has('capture'), passive: has('passive') };
+
+            if (options.passive && has('prevent')) {
+                console.warn(`${config.prefix}on的passive修饰符不能和prevent一起使用: ${type}.${modifiers.join('.')}`);
+            }
+
             let handler = (e: Event) => {
+                if (has('self') && e.target !== this.element) {
+                    return;
+                }
+                if (keys.length && !keys.some(key => isKeyMatched(<KeyboardEvent>e, key))) {
+                    return;
+                }
+                if (has('stop')) {
+                    e.stopPropagation();
+                }
+                if (has('prevent')) {
+                    e.preventDefault();
+                }
+                if (has('once')) {
+                    this.removeEvent(descriptor);
+                }
                 if (config.debug) {
                     console.log(type + ': ' + expression);
                 }
                 func.call(this.viewModel, e, this.element, util.global);
             };
 
-            dom.on(this.element, type, handler);
+            let descriptor: IEventDescriptor = { type, handler, options, container: this.getDelegateContainer(type, options) };
+
+            if (descriptor.container) {
+                addDelegator(descriptor.container, type);
+            }
+            else {
+                dom.on(this.element, type, handler, options);
+            }
 
-            return handler;
+            return descriptor;
+        }
+
+        /**
+         * 开启事件代理时,repeat item中的可冒泡事件使用repeat所在的容器元素代理,
+         * capture和passive事件以及repeat的容器不是元素(如在DocumentFragment中)时不使用代理
+         */
+        private getDelegateContainer(type: string, options: dom.IListenerOptions): HTMLElement {
+            if (!config.eventDelegation || !(this.viewModel instanceof RepeatItem) || options.capture || options.passive || nonBubblingEvents.indexOf(type) > -1) {
+                return null;
+            }
+
+            return (<RepeatItem>this.viewModel).$getContainer();
+        }
+
+        private removeEvent(event: IEventDescriptor): void {
+            if (event.container) {
+                removeDelegator(event.container, event.type);
+            }
+            else {
+                dom.off(this.element, event.type, event.handler, event.options);
+            }
+            util.removeArrayItem(this._events, event);
         }
 
         release() {
-            this._events.forEach((event) => {
-                dom.off(this.element, event.type, event.handler);
-            });
+            this._events.slice().forEach(event => this.removeEvent(event));
             this._events = null;
         }
     }
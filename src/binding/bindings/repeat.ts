@@ -30,6 +30,7 @@ namespace drunk {
 
         _isUsed: boolean;
         _isBinded: boolean;
+        _trackKey: any;
         _flagNode: Node;
         _element: any;
 
@@ -65,8 +66,8 @@ namespace drunk {
                     this.__proxyModel(model);
                 });
             }
+            ownModel = observable.reactive(ownModel);
             this.__proxyModel(ownModel);
-            observable.create(ownModel);
         }
 
         /**
@@ -97,6 +98,14 @@ namespace drunk {
             this._proxyProps[property] = true;
         }
 
+        /**
+         * 获取repeat所在的容器元素,item还未插入文档或容器不是元素(如在DocumentFragment中)时返回null
+         */
+        $getContainer(): HTMLElement {
+            let container = this._flagNode && this._flagNode.parentNode;
+            return container && container.nodeType === 1 ? <HTMLElement>container : null;
+        }
+
         $getModel() {
             let result = super.$getModel();
             this._models.forEach(model => {
@@ -152,7 +161,7 @@ namespace drunk {
 
         /**
          * 把数据转成列表,如果为空则转成空数组
-         * @param  target  把对象转成带有item信息的数组
+         * @param  target  把数组,对象,Map或Set转成带有item信息的数组
          */
         static toList(target: any): IItemDataDescriptor[] {
             let ret: IItemDataDescriptor[] = [];
@@ -178,6 +187,19 @@ namespace drunk {
                     });
                 }
             }
+            else if (observable.isMap(target) || observable.isSet(target)) {
+                let isMap = observable.isMap(target);
+                let idx = 0;
+
+                // Set没有key,使用下标作为key
+                target.forEach((val, key) => {
+                    ret.push({
+                        key: isMap ? key : idx,
+                        idx: idx++,
+                        val: val
+                    });
+                });
+            }
             else if (typeof target === 'number') {
                 for (let i = 0; i < target; i++) {
                     ret.push({
@@ -194,11 +216,61 @@ namespace drunk {
 
     let regParam = /\s+in\s+/;
     let regComma = /\s*,\s*/;
+    let regTrackBy = /\s+track\s+by\s+/;
 
     function invalidExpression(expression: string) {
         throw new TypeError(`错误的${config.prefix}repeat表达式: ${expression}`);
     }
 
+    /**
+     * 求最长递增子序列,忽略小于0的值,返回子序列中各个值在原数组中的下标
+     */
+    function getSequence(sources: number[]): number[] {
+        let predecessors: number[] = [];
+        let result: number[] = [];
+
+        sources.forEach((value, index) => {
+            if (value < 0) {
+                return;
+            }
+
+            let last = result[result.length - 1];
+
+            if (last === undefined || sources[last] < value) {
+                predecessors[index] = last;
+                result.push(index);
+                return;
+            }
+
+            // 二分查找第一个不小于value的位置并替换
+            let low = 0;
+            let high = result.length - 1;
+
+            while (low < high) {
+                let middle = (low + high) >> 1;
+                if (sources[result[middle]] < value) {
+                    low = middle + 1;
+                }
+                else {
+                    high = middle;
+                }
+            }
+
+            predecessors[index] = low > 0 ? result[low - 1] : undefined;
+            result[low] = index;
+        });
+
+        let length = result.length;
+        let index = result[length - 1];
+
+        while (length-- > 0) {
+            result[length] = index;
+            index = predecessors[index];
+        }
+
+        return result;
+    }
+
     /**
      * drunk-repeat的绑定实现类
      */
@@ -206,17 +278,21 @@ namespace drunk {
     class RepeatBinding extends Binding implements IBindingDefinition {
 
         static isTerminal: boolean = true;
+        static hasCustomSyntax: boolean = true;
         static priority: Binding.Priority = Binding.Priority.aboveNormal + 1;
 
         private _headNode: Node;
         private _tailNode: Node;
         private _param: { key?: string; val: string };
+        private _trackBy: Parser.IGetter;
+        private _trackByExpression: string;
         private _bind: IBindingGenerator;
         private _itemVms: RepeatItem[];
         private _cancelRenderJob: Function;
         private _map: Map<RepeatItem[]>;
         private _items: IItemDataDescriptor[];
         private _flagNodeContent: string;
+        private _patchedValue: any[];
 
         /**
          * 初始化绑定
@@ -230,6 +306,29 @@ namespace drunk {
             this._bind = Template.compile(this.element);
         }
 
+        /**
+         * @override
+         */
+        $initialize(ownerViewModel, placeholder?: HTMLElement) {
+            super.$initialize(ownerViewModel, placeholder);
+
+            let watcher = this._getWatcher();
+            if (watcher) {
+                this._arrayChanged = this._arrayChanged.bind(this);
+                watcher.addChangeListener(this._arrayChanged);
+            }
+        }
+
+        /**
+         * 获取表达式对应的watcher实例
+         */
+        private _getWatcher(): Watcher {
+            if (!this._isDynamic) {
+                return;
+            }
+            return this.viewModel._watchers[Watcher.getNameOfKey(this.expression, this.isDeepWatch)];
+        }
+
         /**
          * 创建注释标记标签
          */
@@ -277,23 +376,111 @@ namespace drunk {
                 val: value
             };
 
-            this.expression = parts[1].trim();
+            let trackParts = parts[1].split(regTrackBy);
+
+            if (trackParts.length > 2 || (trackParts.length === 2 && !trackParts[1].trim())) {
+                invalidExpression(expression);
+            }
+            if (trackParts.length === 2) {
+                this._trackByExpression = trackParts[1].trim();
+                this._trackBy = Parser.parseGetter(this._trackByExpression);
+
+                if (this._trackBy.filters) {
+                    // track by的值用于匹配item,不支持filter
+                    invalidExpression(expression);
+                }
+            }
+
+            this.expression = trackParts[0].trim();
+        }
+
+        /**
+         * 获取item在map中的key,使用track by时为track by表达式的值,否则为item的数据本身
+         */
+        private _getTrackKey(item: IItemDataDescriptor): any {
+            if (!this._trackBy) {
+                return item.val;
+            }
+
+            // 表达式中的item变量指向当前的item,其他变量从viewModel上取
+            let viewModel = this.viewModel;
+            let names = [this._param.val, this._param.key];
+            let context = Object.create(viewModel);
+
+            Object.defineProperty(context, this._param.val, { value: item.val });
+
+            if (this._param.key) {
+                Object.defineProperty(context, this._param.key, { value: item.key });
+            }
+
+            // 求值函数会先代理用到的变量,item变量不能代理到父级viewModel上,
+            // 其他变量由viewModel自己代理,不在临时的context上修改viewModel的状态
+            Object.defineProperty(context, '$proxy', {
+                value: (property: string) => {
+                    if (names.indexOf(property) < 0) {
+                        viewModel.$proxy(property);
+                    }
+                }
+            });
+
+            let key = this._trackBy.call(context, null, null, util.global);
+
+            if (key === undefined) {
+                throw new Error(`${config.prefix}repeat的track by表达式"${this._trackByExpression}"的值为undefined`);
+            }
+
+            return key;
+        }
+
+        /**
+         * 使用track by时检查key是否有重复,重复的key无法确定item的对应关系
+         */
+        private _assertUniqueKeys(keys: any[]): void {
+            if (!this._trackBy) {
+                return;
+            }
+
+            let map = new Map<boolean>();
+
+            keys.forEach(key => {
+                if (map.has(key)) {
+                    throw new Error(`${config.prefix}repeat的track by表达式"${this._trackByExpression}"的值重复: ${key}`);
+                }
+                map.set(key, true);
+            });
         }
 
         /**
          * 数据更新
          */
         update(newValue: any) {
+            if (this._patchedValue) {
+                let patchedValue = this._patchedValue;
+                this._patchedValue = null;
+
+                if (patchedValue === newValue) {
+                    // 已经根据变更记录更新过了
+                    return;
+                }
+            }
+
+            let items = RepeatItem.toList(newValue);
+            let keys = items.map(item => this._getTrackKey(item));
+
+            // 在修改任何状态之前检查,出错时保持当前的渲染结果
+            this._assertUniqueKeys(keys);
+
             if (this._cancelRenderJob) {
                 this._cancelRenderJob();
             }
 
-            let items = this._items = RepeatItem.toList(newValue);
             let isEmpty = !this._itemVms || this._itemVms.length === 0;
             let newVms = [];
 
+            this._items = items;
+
             items.forEach((item, index) => {
-                let itemVm = newVms[index] = this._getRepeatItem(item);
+                let itemVm = newVms[index] = this._getRepeatItem(item, keys[index]);
                 itemVm._isUsed = true;
             });
 
@@ -309,13 +496,116 @@ namespace drunk {
                 return;
             }
 
-            return this._render();
+            return this._render(isEmpty ? null : this._getStableItems(newVms));
+        }
+
+        /**
+         * 根据复用的item在当前文档中的顺序求最长递增子序列,子序列中的item渲染时不需要移动,
+         * 返回新列表中每个下标的item是否不需要移动
+         */
+        private _getStableItems(itemVms: RepeatItem[]): boolean[] {
+            let positions = new Map<number>();
+            let position = 0;
+            let node = this._headNode.nextSibling;
+
+            while (node && node !== this._tailNode) {
+                if ((<any>node).flag === this._flagNodeContent) {
+                    positions.set(Component.getByElement(node), position++);
+                }
+                node = node.nextSibling;
+            }
+
+            let sources = itemVms.map(itemVm => positions.has(itemVm) ? positions.get(itemVm) : -1);
+            let stable: boolean[] = [];
+
+            getSequence(sources).forEach(index => stable[index] = true);
+
+            return stable;
+        }
+
+        /**
+         * 数组变更记录的回调,只对受影响的item进行增删,
+         * 变更记录与当前的数组对不上时(如直接修改了数组下标的值)则交给update做完整的更新
+         */
+        private _arrayChanged(changes: observable.IArrayChange[], array: any[]) {
+            if (!this._itemVms || !this._isActived || !this._canPatch(changes, array)) {
+                return;
+            }
+
+            let keys = this._itemVms.map(itemVm => itemVm._trackKey);
+            let addedKeys = changes.map(change => {
+                return change.added.map((val, i) => this._getTrackKey({ key: change.index + i, idx: change.index + i, val: val }));
+            });
+
+            changes.forEach((change, n) => keys.splice(change.index, change.removed.length, ...addedKeys[n]));
+            this._assertUniqueKeys(keys);
+
+            if (this._cancelRenderJob) {
+                this._cancelRenderJob();
+            }
+
+            let itemVms = this._itemVms.slice();
+            let removedVms: RepeatItem[] = [];
+            let startIndex = array.length;
+
+            this._items = RepeatItem.toList(array);
+
+            itemVms.forEach(itemVm => itemVm._isUsed = true);
+
+            changes.forEach((change, n) => {
+                let index = change.index;
+
+                itemVms.splice(index, change.removed.length).forEach(itemVm => {
+                    // 移除的item可以被新插入的相同数据复用
+                    itemVm._isUsed = false;
+                    removedVms.push(itemVm);
+                });
+
+                let added = change.added.map((val, i) => {
+                    let itemVm = this._getRepeatItem({ key: index + i, idx: index + i, val: val }, addedKeys[n][i]);
+                    itemVm._isUsed = true;
+                    return itemVm;
+                });
+
+                itemVms.splice(index, 0, ...added);
+                startIndex = Math.min(startIndex, index);
+            });
+
+            this._unrealizeItems(false, removedVms);
+
+            // 变更位置之后的item下标都改变了,原来的最后一个item也需要更新$last
+            for (let i = Math.max(startIndex - 1, 0); i < itemVms.length; i++) {
+                this._updateItemModel(itemVms[i], this._items[i]);
+            }
+
+            itemVms.forEach(itemVm => itemVm._isUsed = false);
+
+            this._itemVms = itemVms;
+            this._patchedValue = array;
+
+            if (itemVms.length) {
+                this._render();
+            }
+        }
+
+        /**
+         * 把变更记录依次作用在旧的数据上,判断结果是否与当前的数组一致
+         */
+        private _canPatch(changes: observable.IArrayChange[], array: any[]): boolean {
+            let values = this._items.map(item => item.val);
+
+            changes.forEach(change => {
+                values.splice(change.index, change.removed.length, ...change.added);
+            });
+
+            return values.length === array.length && values.every((val, index) => val === array[index]);
         }
 
         /**
          * 渲染item元素
+         * @param  stable  每个下标的item是否不需要移动,不需要移动的item跳过,其他item依次插入到当前位置
          */
-        private _render() {
+        private _render(stable?: boolean[]) {
             let index = 0;
             let length = this._items.length;
             let placeholder;
@@ -342,7 +632,11 @@ namespace drunk {
                 while (index < length) {
                     viewModel = this._itemVms[index++];
 
-                    if (viewModel._flagNode !== placeholder) {
+                    if (stable && stable[index - 1] && viewModel._flagNode !== placeholder) {
+                        // 中间跳过的item都不在最长递增子序列中,会在之后移动到正确的位置
+                        next(viewModel._flagNode);
+                    }
+                    else if (viewModel._flagNode !== placeholder) {
                         // 判断占位节点是否是当前item的节点，不是则换位
                         dom.before(viewModel._flagNode, placeholder);
 
@@ -384,9 +678,8 @@ namespace drunk {
         /**
          * 根据item信息对象获取或创建RepeatItem实例
          */
-        private _getRepeatItem(item: IItemDataDescriptor) {
-            let value = item.val;
-            let viewModelList = this._map.get(value);
+        private _getRepeatItem(item: IItemDataDescriptor, trackKey: any = this._getTrackKey(item)) {
+            let viewModelList = this._map.get(trackKey);
             let viewModel: RepeatItem;
 
             if (viewModelList) {
@@ -401,7 +694,7 @@ namespace drunk {
                 this._updateItemModel(viewModel, item);
             }
             else {
-                viewModel = this._realizeItem(item);
+                viewModel = this._realizeItem(item, trackKey);
             }
 
             return viewModel;
@@ -410,21 +703,21 @@ namespace drunk {
         /**
          * 根据item信息对象创建RepeatItem实例
          */
-        private _realizeItem(item: IItemDataDescriptor) {
-            let value = item.val;
+        private _realizeItem(item: IItemDataDescriptor, trackKey: any = this._getTrackKey(item)) {
             let options: IModel = {};
 
             this._updateItemModel(options, item);
 
             let viewModel = new RepeatItem(this.viewModel, options);
-            let viewModelList = this._map.get(value);
+            let viewModelList = this._map.get(trackKey);
 
+            viewModel._trackKey = trackKey;
             viewModel._flagNode = dom.createFlagNode(this._flagNodeContent);
             Component.setWeakRef(viewModel._flagNode, viewModel as any);
 
             if (!viewModelList) {
                 viewModelList = [];
-                this._map.set(value, viewModelList);
+                this._map.set(trackKey, viewModelList);
             }
             viewModelList.push(viewModel);
 
@@ -449,22 +742,21 @@ namespace drunk {
 
         /**
          * 释放不再使用的RepeatItem实例并删除其指定的元素
-         * @param  force  是否强制移除所有item
+         * @param  force      是否强制移除所有item
+         * @param  itemVms    要检查的item列表,默认为当前所有的item
          */
-        private _unrealizeItems(force?: boolean) {
-            let nameOfVal = this._param.val;
-
-            this._itemVms.forEach((viewModel: RepeatItem, index) => {
+        private _unrealizeItems(force?: boolean, itemVms = this._itemVms) {
+            itemVms.forEach((viewModel: RepeatItem, index) => {
                 if (viewModel._isUsed && !force) {
                     return;
                 }
 
-                let value = viewModel[nameOfVal];
-                let viewModelList = this._map.get(value);
+                let trackKey = viewModel._trackKey;
+                let viewModelList = this._map.get(trackKey);
 
                 util.removeArrayItem(viewModelList, viewModel);
                 if (!viewModelList.length) {
-                    this._map.delete(value);
+                    this._map.delete(trackKey);
                 }
 
                 let element = viewModel._element;
@@ -486,6 +778,10 @@ namespace drunk {
          * 释放该Binding实例
          */
         release() {
+            let watcher = this._getWatcher();
+            if (watcher) {
+                watcher.removeChangeListener(this._arrayChanged);
+            }
             if (this._itemVms && this._itemVms.length) {
                 this._unrealizeItems(true);
             }
@@ -500,7 +796,7 @@ namespace drunk {
             dom.remove(this._tailNode);
 
             this._map.clear();
-            this._map = this._items = this._itemVms = this._bind = this._headNode = this._tailNode = null;
+            this._map = this._items = this._itemVms = this._bind = this._headNode = this._tailNode = this._patchedValue = this._trackBy = this._trackByExpression = null;
         }
     }
 }
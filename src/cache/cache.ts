@@ -92,6 +92,35 @@ namespace drunk {
             }
         }
         
+        /**
+         * 根据key移除缓存
+         * @param  key  要移除的字段
+         */
+        remove(key: string) {
+            let cacheNode = this._cacheMap[key];
+
+            if (!cacheNode) {
+                return;
+            }
+
+            if (cacheNode.prev) {
+                cacheNode.prev.next = cacheNode.next;
+            }
+            else {
+                this._head = cacheNode.next;
+            }
+            if (cacheNode.next) {
+                cacheNode.next.prev = cacheNode.prev;
+            }
+            else {
+                this._tail = cacheNode.prev;
+            }
+
+            cacheNode.prev = cacheNode.next = null;
+            delete this._cacheMap[key];
+            this._count -= 1;
+        }
+        
         /**
          * 把节点放到头部
          * @param  cacheNode  缓存节点
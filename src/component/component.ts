@@ -23,7 +23,7 @@ namespace drunk {
         init?(): any;
         release?(): any;
         data?: { [name: string]: any };
-        filters?: { [name: string]: Filter.IFilter };
+        filters?: { [name: string]: Filter.IFilter | Filter.ITwoWayFilter };
         watchers?: { [expression: string]: IBindingAction };
         handlers?: { [name: string]: Function };
         element?: Node | Node[];
@@ -113,7 +113,7 @@ namespace drunk {
         /**
          * 设置数据过滤器
          */
-        $setFilters(filters: { [name: string]: Filter.IFilter }) {
+        $setFilters(filters: { [name: string]: Filter.IFilter | Filter.ITwoWayFilter }) {
             if (this.$filter) {
                 util.extend(this.$filter, filters);
             } else {
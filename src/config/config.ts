@@ -17,4 +17,61 @@ namespace drunk.config {
      * 开启渲染优化
      */
     export var renderOptimization: boolean = true;
+    
+    /**
+     * 同一个watcher在一轮更新中允许被触发的最大次数,超过时认为存在循环更新并终止这一轮更新
+     */
+    export var maxFlushCount: number = 100;
+    
+    /**
+     * 异步批量修改(drunk.batch的回调返回Promise)最多推迟更新的毫秒数,期间整个应用的watcher更新都会被推迟,
+     * 超时后给出警告并结束这次批量修改,之后的修改正常更新,设为0时不限制
+     */
+    export var batchTimeout: number = 3000;
+    
+    /**
+     * 开启事件代理,drunk-repeat的item中的drunk-on绑定不再各自注册事件,
+     * 而是在repeat所在的容器元素上为每种事件只注册一个监听,再分发到对应的绑定
+     */
+    export var eventDelegation: boolean = false;
+    
+    /**
+     * 开启CSP安全模式,表达式改为解释执行而不使用new Function,用于禁止unsafe-eval的页面,
+     * 需要在解析任何表达式之前设置
+     */
+    export var csp: boolean = false;
+    
+    /**
+     * 开启Proxy模式的数据响应,新增和删除属性不再需要调用$set和$remove,只在支持Proxy的环境下生效,
+     * 需要在创建任何observable数据之前设置
+     */
+    export var proxy: boolean = false;
+    
+    /**
+     * 开启date filter的扩展格式符(a,H,S,E,w,Z和方括号转义),不开启时只识别yy,M,d,h,m,s,
+     * 格式中的其他字母原样输出,开启后作为普通字符的这些字母需要放在方括号中
+     */
+    export var dateExtendedTokens: boolean = false;
+    
+    /**
+     * sanitize filter和drunk-html绑定允许保留的标签,不在列表中的标签会被移除但保留其内容
+     */
+    export var sanitizeTags: string[] = [
+        'a', 'abbr', 'b', 'blockquote', 'br', 'caption', 'cite', 'code', 'col', 'colgroup', 'dd', 'del', 'div',
+        'dl', 'dt', 'em', 'figcaption', 'figure', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'ins',
+        'kbd', 'li', 'mark', 'ol', 'p', 'pre', 'q', 's', 'small', 'span', 'strong', 'sub', 'sup', 'table',
+        'tbody', 'td', 'tfoot', 'th', 'thead', 'tr', 'u', 'ul'
+    ];
+    
+    /**
+     * sanitize filter和drunk-html绑定允许保留的属性,事件属性(on*)总是会被移除
+     */
+    export var sanitizeAttributes: string[] = [
+        'alt', 'class', 'colspan', 'height', 'href', 'rowspan', 'src', 'target', 'title', 'width'
+    ];
+    
+    /**
+     * 链接类属性(href,src等)允许使用的协议,相对地址总是允许
+     */
+    export var sanitizeUrlSchemes: string[] = ['http', 'https', 'mailto', 'tel'];
 }
\ No newline at end of file
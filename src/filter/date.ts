@@ -0,0 +1,235 @@
+/// <reference path="../config/config.ts" />
+/// <reference path="./locale.ts" />
+
+/**
+ * 日期的解析和格式化
+ */
+namespace drunk.Filter {
+
+    const reISODate = /^(\d{4})-(\d{1,2})(?:-(\d{1,2})(?:[T\s](\d{1,2}):(\d{2})(?::(\d{2})(?:[.,](\d+))?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?)?)?$/i;
+    const reOffset = /^([+-])(\d{2}):?(\d{2})?$/;
+    const reTimestamp = /^-?\d+$/;
+    const reFormat = /(yy|M|d|h|m|s)\1*/g;
+    const reExtendedFormat = /\[([^\]]*)\]|(yy|M|d|h|H|m|s|S|a|E|w|Z)\2*/g;
+
+    /**
+     * 把时间戳,日期字符串或Date对象转成Date对象,无法解析时返回null
+     * 支持ISO-8601格式的字符串,如"2015-01-12","2015-01-12T16:34:05.040+08:00",不带时区的按本地时间解析
+     * @param  input  输入
+     */
+    export function parseDate(input: any): Date {
+        if (input == null || input === '') {
+            return null;
+        }
+
+        let date: Date;
+
+        if (input instanceof Date) {
+            date = input;
+        }
+        else if (typeof input === 'number') {
+            date = new Date(input);
+        }
+        else {
+            let str = String(input).trim();
+            let match = str.match(reISODate);
+
+            if (match) {
+                date = fromISOMatch(match);
+            }
+            else if (reTimestamp.test(str)) {
+                date = new Date(Number(str));
+            }
+            else {
+                date = new Date(str.replace(/-/g, "/"));
+            }
+        }
+
+        return date && !isNaN(date.getTime()) ? date : null;
+    }
+
+    /**
+     * 根据指定格式返回日期字符串,可用的格式:
+     * yyyy/yy 年, MMMM/MMM 月份名, MM/M 月, dddd/ddd 星期名, dd/d 日, hh/h 24小时制的时, mm/m 分, ss/s 秒,
+     * 开启config.dateExtendedTokens后还可以使用: E 星期几(1-7,星期一为1), HH/H 24小时制的时,
+     * hh/h 时(格式中有a格式符时为12小时制), a 上午/下午, SSS/S 毫秒, ww/w ISO-8601的周数,
+     * Z/ZZ 时区偏移(+08:00/+0800), 方括号中的内容原样输出
+     * @param  input     时间戳,日期字符串或Date对象,为空值或0时返回空字符串
+     * @param  format    格式
+     * @param  timezone  时区,'UTC'或'+08:00'形式的固定偏移,不传时使用本地时区,无法解析时给出警告并使用本地时区
+     */
+    export function formatDate(input: any, format: string, timezone?: string): string {
+        if (!input) {
+            return '';
+        }
+
+        let date = parseDate(input);
+
+        if (!date) {
+            return '';
+        }
+
+        let offset = timezone != null ? parseOffset(timezone) : null;
+        let isUTC = offset != null;
+
+        if (timezone != null && !isUTC) {
+            console.warn(`无法识别的时区: "${timezone}",将使用本地时区`);
+        }
+
+        if (isUTC) {
+            date = new Date(date.getTime() + offset * 60000);
+        }
+        else {
+            offset = -date.getTimezoneOffset();
+        }
+
+        let locale = getLocale();
+        let y = String(isUTC ? date.getUTCFullYear() : date.getFullYear());
+        let M = (isUTC ? date.getUTCMonth() : date.getMonth()) + 1;
+        let d = isUTC ? date.getUTCDate() : date.getDate();
+        let day = isUTC ? date.getUTCDay() : date.getDay();
+        let H = isUTC ? date.getUTCHours() : date.getHours();
+        let m = isUTC ? date.getUTCMinutes() : date.getMinutes();
+        let s = isUTC ? date.getUTCSeconds() : date.getSeconds();
+        let ms = isUTC ? date.getUTCMilliseconds() : date.getMilliseconds();
+        let isExtended = config.dateExtendedTokens;
+        let re = isExtended ? reExtendedFormat : reFormat;
+        let h = isExtended && hasMeridiemToken(format) ? (H % 12 || 12) : H;
+
+        return format.replace(re, function(x, literal) {
+            if (isExtended && literal != null) {
+                return literal;
+            }
+
+            switch (x) {
+                case "yyyy":
+                    return y;
+                case "yy":
+                    return y.slice(2);
+                case "MMMM":
+                    return locale.months[M - 1];
+                case "MMM":
+                    return locale.monthsShort[M - 1];
+                case "MM":
+                    return padded(M);
+                case "M":
+                    return M;
+                case "dddd":
+                    return locale.weekdays[day];
+                case "ddd":
+                    return locale.weekdaysShort[day];
+                case "dd":
+                    return padded(d);
+                case "d":
+                    return d;
+                case "E":
+                    return day || 7;
+                case "HH":
+                    return padded(H);
+                case "H":
+                    return H;
+                case "hh":
+                    return padded(h);
+                case "h":
+                    return h;
+                case "a":
+                    return locale.meridiem[H < 12 ? 0 : 1];
+                case "mm":
+                    return padded(m);
+                case "m":
+                    return m;
+                case "ss":
+                    return padded(s);
+                case "s":
+                    return s;
+                case "SSS":
+                    return ms < 10 ? '00' + ms : ms < 100 ? '0' + ms : ms;
+                case "S":
+                    return ms;
+                case "ww":
+                    return padded(getISOWeek(Number(y), M, d));
+                case "w":
+                    return getISOWeek(Number(y), M, d);
+                case "ZZ":
+                    return formatOffset(offset, '');
+                case "Z":
+                    return formatOffset(offset, ':');
+            }
+            return x;
+        });
+    }
+
+    /**
+     * 格式中是否有a格式符(不在方括号中)
+     */
+    function hasMeridiemToken(format: string): boolean {
+        let result = false;
+
+        format.replace(reExtendedFormat, function(x, literal) {
+            if (literal == null && x.charAt(0) === 'a') {
+                result = true;
+            }
+            return x;
+        });
+
+        return result;
+    }
+
+    function fromISOMatch(match: string[]): Date {
+        let y = Number(match[1]);
+        let M = Number(match[2]) - 1;
+        let d = match[3] ? Number(match[3]) : 1;
+        let h = match[4] ? Number(match[4]) : 0;
+        let m = match[5] ? Number(match[5]) : 0;
+        let s = match[6] ? Number(match[6]) : 0;
+        let ms = match[7] ? Number((match[7] + '00').slice(0, 3)) : 0;
+
+        if (match[8]) {
+            let offset = parseOffset(match[8]);
+            return offset == null ? null : new Date(Date.UTC(y, M, d, h, m, s, ms) - offset * 60000);
+        }
+
+        let date = new Date(y, M, d, h, m, s, ms);
+        if (y < 100) {
+            // new Date会把0-99年当作1900-1999年
+            date.setFullYear(y);
+        }
+        return date;
+    }
+
+    /**
+     * 解析时区偏移,返回相对UTC的分钟数,无法解析时返回null
+     */
+    function parseOffset(timezone: string): number {
+        if (/^(Z|UTC|GMT)$/i.test(timezone)) {
+            return 0;
+        }
+
+        let match = timezone.match(reOffset);
+        if (!match) {
+            return null;
+        }
+
+        let minutes = Number(match[2]) * 60 + Number(match[3] || 0);
+        return match[1] === '-' ? -minutes : minutes;
+    }
+
+    function formatOffset(offset: number, separator: string): string {
+        let abs = Math.abs(offset);
+        return (offset < 0 ? '-' : '+') + padded(Math.floor(abs / 60)) + separator + padded(abs % 60);
+    }
+
+    /**
+     * 获取ISO-8601的周数,每周从星期一开始,包含当年第一个星期四的周为第一周
+     */
+    function getISOWeek(y: number, M: number, d: number): number {
+        let date = new Date(Date.UTC(y, M - 1, d));
+        date.setUTCDate(date.getUTCDate() + 4 - (date.getUTCDay() || 7));
+        let yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+        return Math.ceil(((date.getTime() - yearStart) / 86400000 + 1) / 7);
+    }
+
+    function padded(n: number): any {
+        return n < 10 ? '0' + n : n;
+    }
+}
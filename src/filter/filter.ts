@@ -1,4 +1,7 @@
 /// <reference path="../parser/parser.ts" />
+/// <reference path="./locale.ts" />
+/// <reference path="./date.ts" />
+/// <reference path="../util/sanitize.ts" />
 
 /**
  * 数据过滤器模块
@@ -7,7 +10,7 @@
 namespace drunk.Filter {
     
     /**
-     * Filter声明
+     * Filter声明,filter可以返回一个Promise(thenable对象),之后的filter会在其resolve后接着处理
      * @param   input       输入
      * @param   ...arggs    其他参数
      */
@@ -15,59 +18,148 @@ namespace drunk.Filter {
         (...args: any[]): any;
     }
 
+    /**
+     * 双向filter声明,read用于数据显示到视图时的处理,write用于视图的值写回数据时的处理,
+     * 如drunk-model="price | currency"时把输入的字符串转换回数字
+     */
+    export interface ITwoWayFilter {
+        read?: IFilter;
+        write?: IFilter;
+    }
+
     export interface IFilterDef {
         name: string;
         param?: Parser.IGetter;
     }
     
     /**
-     * 使用提供的filter列表处理数据
+     * 使用提供的filter列表处理数据,如果有filter返回了Promise,则返回一个Promise,resolve的值为最终的处理结果
      * @param   value       输入
      * @param   filterDefs  filter定义集合
      * @param   viewModel   ViewModel实例
      * @param   ...args     其他参数
      */
-    export function pipeFor(value: any, filterDefs: any, filterMap: { [name: string]: IFilter }, isInterpolate: boolean, ...args: any[]): any {
+    export function pipeFor(value: any, filterDefs: any, filterMap: { [name: string]: IFilter | ITwoWayFilter }, isInterpolate: boolean, ...args: any[]): any {
         if (!filterDefs) {
             return isInterpolate ? getInterpolateValue(value) : value;
         }
 
         if (isInterpolate) {
+            let isAsync = false;
+
             // 如果是插值表达式,插值表达式的每个token对应自己的filter,需要一个个进行处理,
             // 如果某个token没有filter说明那个token只是普通的字符串,直接返回
             value = value.map((item, i) => {
                 if (!filterDefs[i]) {
                     return item;
                 }
-                return Filter.pipeFor(item, filterDefs[i], filterMap, false, ...args);
+                item = Filter.pipeFor(item, filterDefs[i], filterMap, false, ...args);
+                isAsync = isAsync || util.isThenable(item);
+                return item;
             });
+
+            if (isAsync) {
+                return Promise.all(value).then(getInterpolateValue);
+            }
                 
             // 对所有token求值得到的结果做处理,如果是undefined或null类型直接转成空字符串,避免页面显示出undefined或null
             return getInterpolateValue(value);
         }
 
-        let name;
-        let param;
-        let method;
         let viewModel = args[0];
         args = args.slice(1);
     
-        // 应用于所有的filter
-        filterDefs.forEach(def => {
-            name = def.name;
-            method = filterMap[name];
+        // 先找出所有的filter方法并对参数求值,保证参数中依赖的数据都能同步的被订阅
+        let pipes = filterDefs.map(def => {
+            return { method: getMethod(filterMap, def.name, 'read', viewModel), param: def.param ? def.param.apply(viewModel, args) : [] };
+        });
 
-            if (typeof method !== 'function') {
-                throw new Error(`未找到filter的定义: ${name}`);
+        return applyPipes(value, pipes, 0);
+    }
+
+    /**
+     * 按相反的顺序应用filter的write方法,用于把视图的值写回数据,没有write方法的filter直接跳过
+     * @param   value       输入
+     * @param   filterDefs  filter定义集合
+     * @param   filterMap   filter方法表
+     * @param   viewModel   ViewModel实例
+     */
+    export function pipeBackFor(value: any, filterDefs: IFilterDef[], filterMap: { [name: string]: IFilter | ITwoWayFilter }, viewModel: ViewModel): any {
+        if (!filterDefs) {
+            return value;
+        }
+
+        for (let i = filterDefs.length - 1; i >= 0; i--) {
+            let def = filterDefs[i];
+            let method = getMethod(filterMap, def.name, 'write', viewModel);
+
+            if (method) {
+                value = method(...[value].concat(def.param ? def.param.call(viewModel) : []));
             }
+        }
 
-            param = def.param ? def.param.apply(viewModel, args) : [];
-            value = method(...[value].concat(param));
-        });
+        return value;
+    }
+
+    /**
+     * 获取filter的处理方法,普通的filter方法只用于read
+     */
+    function getMethod(filterMap: { [name: string]: IFilter | ITwoWayFilter }, name: string, type: string, viewModel: ViewModel): IFilter {
+        let filter: any = filterMap[name];
+
+        if (typeof filter === 'function') {
+            return type === 'read' ? filter : null;
+        }
+        if (!filter || typeof filter !== 'object') {
+            let componentName = getComponentName(viewModel);
+            throw new Error(`未找到filter的定义: ${name}` + (componentName ? `, 所在组件: ${componentName}` : ''));
+        }
+        if (typeof filter[type] === 'function') {
+            return filter[type];
+        }
+        if (type === 'read') {
+            // 只定义了write方法的filter在读取时原样返回
+            return (input: any) => input;
+        }
+        return null;
+    }
+
+    /**
+     * 从指定位置开始依次应用filter,遇到返回Promise的filter时,剩下的filter在Promise resolve后再继续处理
+     */
+    function applyPipes(value: any, pipes: { method: IFilter; param: any[] }[], index: number): any {
+        while (index < pipes.length) {
+            value = pipes[index].method(...[value].concat(pipes[index].param));
+            index += 1;
+
+            if (index < pipes.length && util.isThenable(value)) {
+                let next = index;
+                return Promise.resolve(value).then(result => applyPipes(result, pipes, next));
+            }
+        }
 
         return value;
     }
     
+    /**
+     * 获取viewModel所属组件的名称,用于错误提示
+     */
+    function getComponentName(viewModel: any): string {
+        while (viewModel && !(viewModel instanceof Component) && viewModel.$parent) {
+            viewModel = viewModel.$parent;
+        }
+
+        if (!(viewModel instanceof Component)) {
+            return null;
+        }
+        if (viewModel.name) {
+            return viewModel.name;
+        }
+
+        let constructors = Component.constructorsByName;
+        return Object.keys(constructors).filter(name => constructors[name] === viewModel.constructor)[0] || null;
+    }
+    
     /**
      * 判断插值表达式的值个数,如果只有一个,则返回该值,如果有多个,则返回所有值的字符串相加
      */
@@ -88,9 +180,11 @@ namespace drunk.Filter {
         escape: /[<>& "']/gm,
         unescape: /&.+?;/g,
         striptags: /(<([^>]+)>)/ig,
-        format: /(yy|M|d|h|m|s)(\1)*/g
+        thousands: /\B(?=(\d{3})+(?!\d))/g
     };
 
+    const byteUnits = ['B', 'KB', 'MB', 'GB', 'TB', 'PB'];
+
     let escapeChars = {
         '&': "&amp;",
         ' ': "&nbsp;",
@@ -202,6 +296,14 @@ namespace drunk.Filter {
             return input.replace(reg.striptags, "");
         },
 
+        /**
+         * 净化html字符串,只保留drunk.config中配置的白名单标签,属性和链接协议,移除脚本和事件属性
+         * @param   input  html字符串
+         */
+        sanitize(input: string): string {
+            return dom.sanitize(input);
+        },
+
         /**
          * 当输入为undefined或null是返回默认值
          * @param  input        输入
@@ -212,12 +314,286 @@ namespace drunk.Filter {
         },
 
         /**
-         * 根据输入的时间戳返回指定格式的日期字符串
-         * @param   input  时间戳
-         * @param   format 要返回的时间格式
+         * 过滤数组或对象,对象会返回只包含匹配项的新对象
+         * @param   input       输入
+         * @param   expression  匹配条件,字符串或数字时对值(或指定的字段)进行不区分大小写的包含匹配,
+         *                      对象时要求每个字段都匹配,方法时传入(value, key)返回是否保留
+         * @param   fields      字符串匹配时要匹配的字段名或字段名数组,支持"a.b"形式的路径
+         */
+        filterBy(input: any, expression: any, fields?: string | string[]): any {
+            let entries = toEntries(input);
+
+            if (!entries || expression == null || expression === '') {
+                return input;
+            }
+
+            let predicate: (value: any, key: any) => boolean;
+
+            if (typeof expression === 'function') {
+                predicate = expression;
+            }
+            else if (typeof expression === 'object') {
+                predicate = (value) => Object.keys(expression).every(path => matchValue(getByPath(value, path), expression[path]));
+            }
+            else if (fields != null) {
+                let paths: string[] = Array.isArray(fields) ? <string[]>fields : [<string>fields];
+                predicate = (value) => paths.some(path => matchValue(getByPath(value, path), expression));
+            }
+            else {
+                predicate = (value) => matchValue(value, expression);
+            }
+
+            return fromEntries(entries.filter(entry => predicate(entry.value, entry.key)), input);
+        },
+
+        /**
+         * 对数组或对象排序,对象会返回按顺序重新添加键值的新对象
+         * @param   input    输入
+         * @param   keys     排序的字段名或字段名数组,字段名前加"-"为降序,加"+"或不加为升序,
+         *                   也可以是返回排序依据的方法,不传时按值本身排序
+         * @param   reverse  是否把结果倒序,值为null或undefined的项仍然排在最后
+         */
+        orderBy(input: any, keys?: any, reverse?: boolean): any {
+            let entries = toEntries(input);
+
+            if (!entries) {
+                return input;
+            }
+
+            let sorters = (Array.isArray(keys) ? keys : [keys]).map(key => {
+                let desc = false;
+
+                if (typeof key === 'string' && (key.charAt(0) === '-' || key.charAt(0) === '+')) {
+                    desc = key.charAt(0) === '-';
+                    key = key.slice(1);
+                }
+
+                return {
+                    desc,
+                    get: typeof key === 'function' ? key : (value: any) => key == null || key === '' ? value : getByPath(value, key)
+                };
+            });
+
+            let list = entries.map((entry, index) => {
+                return { entry, index, values: sorters.map(sorter => sorter.get(entry.value)) };
+            });
+
+            list.sort((a, b) => {
+                for (let i = 0; i < sorters.length; i++) {
+                    let x = a.values[i];
+                    let y = b.values[i];
+
+                    if (x == null || y == null) {
+                        // null和undefined不论升序降序还是倒序都排在最后
+                        if (x == null && y == null) {
+                            continue;
+                        }
+                        return x == null ? 1 : -1;
+                    }
+
+                    let result = compareValue(x, y);
+                    if (result !== 0) {
+                        return sorters[i].desc !== !!reverse ? -result : result;
+                    }
+                }
+                // 保证排序稳定,倒序时相同的值也倒过来
+                return reverse ? b.index - a.index : a.index - b.index;
+            });
+
+            return fromEntries(list.map(item => item.entry), input);
+        },
+
+        /**
+         * 截取数组,对象或字符串
+         * @param   input  输入
+         * @param   limit  保留的个数,负数时从末尾开始保留
+         * @param   begin  开始的位置,默认为0
+         */
+        limitTo(input: any, limit: number, begin?: number): any {
+            limit = Number(limit);
+
+            if (isNaN(limit)) {
+                return input;
+            }
+
+            let isString = typeof input === 'string';
+            let entries: any = isString ? input : toEntries(input);
+
+            if (!entries) {
+                return input;
+            }
+
+            begin = begin ? Number(begin) || 0 : 0;
+            if (begin < 0) {
+                begin = Math.max(0, entries.length + begin);
+            }
+
+            let result: any;
+            if (limit >= 0) {
+                result = entries.slice(begin, begin + limit);
+            }
+            else if (begin === 0) {
+                result = entries.slice(limit);
+            }
+            else {
+                result = entries.slice(Math.max(0, begin + limit), begin);
+            }
+
+            return isString ? result : fromEntries(result, input);
+        },
+
+        /**
+         * 移除数组或对象中重复的值
+         * @param   input  输入
+         * @param   key    判断是否重复的字段名或返回判断依据的方法,不传时按值本身判断
+         */
+        unique(input: any, key?: any): any {
+            let entries = toEntries(input);
+
+            if (!entries) {
+                return input;
+            }
+
+            let seen = [];
+
+            return fromEntries(entries.filter(entry => {
+                let value = key == null ? entry.value : typeof key === 'function' ? key(entry.value) : getByPath(entry.value, key);
+
+                if (seen.indexOf(value) > -1) {
+                    return false;
+                }
+                seen.push(value);
+                return true;
+            }), input);
+        },
+
+        /**
+         * 按指定的字段对数组或对象分组,返回以分组值为key的对象,每个分组与输入的类型一致
+         * @param   input  输入
+         * @param   key    分组的字段名或返回分组值的方法
          */
-        date(input: number | string, format: string) {
-            return formatDate(input, format);
+        groupBy(input: any, key: any): any {
+            let entries = toEntries(input);
+
+            if (!entries) {
+                return input;
+            }
+
+            let groups: { [name: string]: IEntry[] } = {};
+            let names: string[] = [];
+
+            entries.forEach(entry => {
+                let name = String(typeof key === 'function' ? key(entry.value) : getByPath(entry.value, key));
+
+                if (!groups[name]) {
+                    groups[name] = [];
+                    names.push(name);
+                }
+                groups[name].push(entry);
+            });
+
+            let result = {};
+            names.forEach(name => {
+                result[name] = fromEntries(groups[name], input);
+            });
+            return result;
+        },
+
+        /**
+         * 根据输入的时间戳返回指定格式的日期字符串,可用的格式见Filter.formatDate
+         * @param   input    时间戳,日期字符串或Date对象
+         * @param   format   要返回的时间格式
+         * @param   timezone 时区,'UTC'或'+08:00'形式的固定偏移,不传时使用本地时区,无法解析时给出警告并使用本地时区
+         */
+        date(input: number | string | Date, format: string, timezone?: string) {
+            return formatDate(input, format, timezone);
+        },
+
+        /**
+         * 格式化数字,添加千分位分隔符
+         * @param   input        输入
+         * @param   fractionSize 保留的小数位数,不传时最多保留三位
+         */
+        number(input: any, fractionSize?: number): string {
+            return formatNumber(input, fractionSize);
+        },
+
+        /**
+         * 格式化为货币
+         * @param   input        输入
+         * @param   symbol       货币符号,默认使用当前locale的货币符号
+         * @param   fractionSize 保留的小数位数,默认为2
+         */
+        currency(input: any, symbol?: string, fractionSize?: number): string {
+            let locale = getLocale();
+            let value = formatNumber(input, fractionSize == null ? 2 : fractionSize);
+
+            if (!value) {
+                return value;
+            }
+
+            let isNegative = value.charAt(0) === '-';
+            value = locale.currencyFormat.replace('%s', symbol != null ? symbol : locale.currency).replace('%n', isNegative ? value.slice(1) : value);
+            return isNegative ? '-' + value : value;
+        },
+
+        /**
+         * 格式化为百分比
+         * @param   input        输入,如0.25 => "25%"
+         * @param   fractionSize 保留的小数位数,默认为0
+         */
+        percent(input: any, fractionSize?: number): string {
+            if (input == null || input === '') {
+                return '';
+            }
+
+            let value = formatNumber(input * 100, fractionSize || 0);
+            return value && value + '%';
+        },
+
+        /**
+         * 把字节数格式化为可读的大小,如1536 => "1.5 KB"
+         * @param   input        字节数
+         * @param   fractionSize 保留的小数位数,默认为1
+         */
+        bytes(input: any, fractionSize?: number): string {
+            let value = Number(input);
+
+            if (input == null || input === '' || !isFinite(value)) {
+                return '';
+            }
+
+            let index = 0;
+            while (Math.abs(value) >= 1024 && index < byteUnits.length - 1) {
+                value /= 1024;
+                index += 1;
+            }
+
+            return formatNumber(value, index === 0 ? 0 : (fractionSize == null ? 1 : fractionSize)) + ' ' + byteUnits[index];
+        },
+
+        /**
+         * 返回输入时间距离现在的相对时间,如"3分钟前"
+         * @param   input  时间戳或日期字符串
+         * @param   now    作为参照的当前时间,默认为Date.now()
+         */
+        fromNow(input: number | string, now?: number | string): string {
+            if (!input) {
+                return '';
+            }
+
+            let date = parseDate(input);
+            let current = now != null ? parseDate(now) : new Date();
+
+            if (!date || !current) {
+                return '';
+            }
+
+            let diff = current.getTime() - date.getTime();
+
+            let relativeTime = getLocale().relativeTime;
+            let text = getRelativeTimeText(Math.abs(diff) / 1000, relativeTime);
+            return (diff < 0 ? relativeTime.future : relativeTime.past).replace('%s', text);
         },
 
         /**
@@ -230,53 +606,145 @@ namespace drunk.Filter {
         }
     };
 
-    function formatDate(time, format) {
-        if (!time) {
-            return '';
+    /**
+     * 注册一个全局的filter,所有viewModel都可以使用
+     * @param  name    filter名
+     * @param  filter  filter方法或包含read/write方法的双向filter
+     */
+    export function register(name: string, filter: IFilter | ITwoWayFilter): void {
+        if (filters[name]) {
+            console.warn(name, `filter原已定义为: `, filters[name]);
+            console.warn(`替换为: `, filter);
         }
-        if (typeof time === 'string') {
-            time = time.replace(/-/g, "/");
-        }
-
-        let t = new Date(time);
-        let y = String(t.getFullYear());
-        let M = t.getMonth() + 1;
-        let d = t.getDate();
-        let H = t.getHours();
-        let m = t.getMinutes();
-        let s = t.getSeconds();
-
-        return format.replace(reg.format, function(x) {
-            switch (x) {
-                case "yyyy":
-                    return y;
-                case "yy":
-                    return y.slice(2);
-                case "MM":
-                    return padded(M);
-                case "M":
-                    return M;
-                case "dd":
-                    return padded(d);
-                case "d":
-                    return d;
-                case "h":
-                    return H;
-                case "hh":
-                    return padded(H);
-                case "mm":
-                    return padded(m);
-                case "m":
-                    return m;
-                case "s":
-                    return s;
-                case "ss":
-                    return padded(s);
-            }
+
+        filters[name] = <any>filter;
+    }
+
+    interface IEntry {
+        key: any;
+        value: any;
+    }
+
+    /**
+     * 把数组或对象转成键值对列表,和RepeatItem.toList一样支持数组和对象两种形式
+     */
+    function toEntries(input: any): IEntry[] {
+        if (Array.isArray(input)) {
+            return input.map((value, key) => ({ key, value }));
+        }
+        if (util.isPlainObjectOrObservableObject(input)) {
+            return Object.keys(input).map(key => ({ key, value: input[key] }));
+        }
+    }
+
+    /**
+     * 根据键值对列表生成与原输入类型一致的数组或对象
+     */
+    function fromEntries(entries: IEntry[], input: any): any {
+        if (Array.isArray(input)) {
+            return entries.map(entry => entry.value);
+        }
+
+        let result = {};
+        entries.forEach(entry => {
+            result[entry.key] = entry.value;
         });
+        return result;
     }
 
-    function padded(n) {
-        return n < 10 ? '0' + n : n;
+    function getByPath(target: any, path: string): any {
+        let keys = String(path).split('.');
+
+        for (let i = 0; i < keys.length; i++) {
+            if (target == null) {
+                return undefined;
+            }
+            target = target[keys[i]];
+        }
+
+        return target;
     }
+
+    function matchValue(value: any, expected: any): boolean {
+        if (value == null) {
+            return false;
+        }
+        if (typeof value === 'object') {
+            return Object.keys(value).some(key => matchValue(value[key], expected));
+        }
+        if (typeof expected === 'string' || typeof expected === 'number') {
+            return String(value).toLowerCase().indexOf(String(expected).toLowerCase()) > -1;
+        }
+        return value === expected;
+    }
+
+    function compareValue(a: any, b: any): number {
+        if (a === b) {
+            return 0;
+        }
+        if (typeof a === 'string' && typeof b === 'string') {
+            return a.localeCompare(b);
+        }
+        return a < b ? -1 : a > b ? 1 : 0;
+    }
+
+    function formatNumber(input: any, fractionSize?: number): string {
+        let num = Number(input);
+
+        if (input == null || input === '' || isNaN(num)) {
+            return '';
+        }
+        if (!isFinite(num)) {
+            return String(num);
+        }
+
+        let locale = getLocale();
+        let str = fractionSize == null ? String(Math.round(Math.abs(num) * 1000) / 1000) : Math.abs(num).toFixed(fractionSize);
+        let parts = str.split('.');
+        let result = parts[0].replace(reg.thousands, locale.thousands) + (parts[1] ? locale.decimal + parts[1] : '');
+
+        return num < 0 && Number(str) !== 0 ? '-' + result : result;
+    }
+
+    // 相对时间的区间划分
+    function getRelativeTimeText(seconds: number, relativeTime: any): string {
+        let minutes = Math.round(seconds / 60);
+        let hours = Math.round(minutes / 60);
+        let days = Math.round(hours / 24);
+        let months = Math.round(days / 30);
+        let years = Math.round(days / 365);
+
+        if (seconds < 45) {
+            return relativeTime.s;
+        }
+        if (seconds < 90) {
+            return relativeTime.m;
+        }
+        if (minutes < 45) {
+            return relativeTime.mm.replace('%d', String(minutes));
+        }
+        if (minutes < 90) {
+            return relativeTime.h;
+        }
+        if (hours < 22) {
+            return relativeTime.hh.replace('%d', String(hours));
+        }
+        if (hours < 36) {
+            return relativeTime.d;
+        }
+        if (days < 26) {
+            return relativeTime.dd.replace('%d', String(days));
+        }
+        if (days < 45) {
+            return relativeTime.M;
+        }
+        if (days < 320) {
+            return relativeTime.MM.replace('%d', String(months));
+        }
+        if (days < 548) {
+            return relativeTime.y;
+        }
+        return relativeTime.yy.replace('%d', String(years));
+    }
+
 }
\ No newline at end of file
@@ -0,0 +1,161 @@
+/// <reference path="../util/util.ts" />
+
+/**
+ * filter使用的本地化配置
+ */
+namespace drunk.Filter {
+
+    import util = drunk.util;
+
+    /**
+     * 本地化配置声明,注册时未提供的字段会使用当前locale的值
+     */
+    export interface ILocale {
+
+        /**
+         * 小数点
+         */
+        decimal?: string;
+
+        /**
+         * 千分位分隔符
+         */
+        thousands?: string;
+
+        /**
+         * 货币符号
+         */
+        currency?: string;
+
+        /**
+         * 货币格式,%s为货币符号,%n为格式化后的数字
+         */
+        currencyFormat?: string;
+
+        /**
+         * 月份名,从一月开始
+         */
+        months?: string[];
+        monthsShort?: string[];
+
+        /**
+         * 星期名,从星期日开始
+         */
+        weekdays?: string[];
+        weekdaysShort?: string[];
+
+        /**
+         * 上午和下午的标记
+         */
+        meridiem?: string[];
+
+        /**
+         * 相对时间的文本,future和past中的%s为时间长度,其他字段中的%d为数值
+         */
+        relativeTime?: {
+            future: string;
+            past: string;
+            s: string;
+            m: string;
+            mm: string;
+            h: string;
+            hh: string;
+            d: string;
+            dd: string;
+            M: string;
+            MM: string;
+            y: string;
+            yy: string;
+        };
+    }
+
+    /**
+     * 已注册的locale表
+     */
+    export var locales: { [name: string]: ILocale } = {
+        'zh-CN': {
+            decimal: '.',
+            thousands: ',',
+            currency: '¥',
+            currencyFormat: '%s%n',
+            months: ['一月', '二月', '三月', '四月', '五月', '六月', '七月', '八月', '九月', '十月', '十一月', '十二月'],
+            monthsShort: ['1月', '2月', '3月', '4月', '5月', '6月', '7月', '8月', '9月', '10月', '11月', '12月'],
+            weekdays: ['星期日', '星期一', '星期二', '星期三', '星期四', '星期五', '星期六'],
+            weekdaysShort: ['周日', '周一', '周二', '周三', '周四', '周五', '周六'],
+            meridiem: ['上午', '下午'],
+            relativeTime: {
+                future: '%s后',
+                past: '%s前',
+                s: '几秒',
+                m: '1分钟',
+                mm: '%d分钟',
+                h: '1小时',
+                hh: '%d小时',
+                d: '1天',
+                dd: '%d天',
+                M: '1个月',
+                MM: '%d个月',
+                y: '1年',
+                yy: '%d年'
+            }
+        },
+        'en': {
+            decimal: '.',
+            thousands: ',',
+            currency: '$',
+            currencyFormat: '%s%n',
+            months: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+            monthsShort: ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'],
+            weekdays: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+            weekdaysShort: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'],
+            meridiem: ['AM', 'PM'],
+            relativeTime: {
+                future: 'in %s',
+                past: '%s ago',
+                s: 'a few seconds',
+                m: 'a minute',
+                mm: '%d minutes',
+                h: 'an hour',
+                hh: '%d hours',
+                d: 'a day',
+                dd: '%d days',
+                M: 'a month',
+                MM: '%d months',
+                y: 'a year',
+                yy: '%d years'
+            }
+        }
+    };
+
+    let currentName = 'zh-CN';
+
+    /**
+     * 切换当前使用的locale,如果提供了locale配置则先注册(或覆盖已注册的部分字段)
+     * @param  name    locale名称,如'zh-CN'
+     * @param  locale  locale配置
+     */
+    export function setLocale(name: string, locale?: ILocale): void {
+        if (locale) {
+            locales[name] = util.extend({}, locales[name] || locales[currentName], locale);
+        }
+        else if (!locales[name]) {
+            throw new Error(`未找到locale的定义: ${name}`);
+        }
+
+        currentName = name;
+    }
+
+    /**
+     * 获取当前使用的locale配置
+     */
+    export function getLocale(): ILocale {
+        return locales[currentName];
+    }
+
+    /**
+     * 获取当前使用的locale名称
+     */
+    export function getLocaleName(): string {
+        return currentName;
+    }
+}
@@ -0,0 +1,291 @@
+/// <reference path="../cache/cache.ts" />
+/// <reference path="../observable/observable.ts" />
+/// <reference path="../watcher/watcher.ts" />
+
+namespace drunk {
+
+    import util = drunk.util;
+    import observable = drunk.observable;
+
+    /**
+     * 一条修改记录,对象字段的修改或数组的splice
+     */
+    interface IHistoryRecord {
+        target: any;
+        object?: observable.IObjectChange;
+        array?: observable.IArrayChange;
+    }
+
+    interface ISubscription {
+        observer: observable.Observer;
+        objectChanged: (change: observable.IObjectChange) => void;
+        arrayChanged: (change: observable.IArrayChange) => void;
+    }
+
+    /**
+     * 数据修改的历史记录,订阅数据及其所有子对象和数组的Observer,记录每次修改用于撤销和重做。
+     * 每次修改(包括$set,$remove,$setAt,$removeAt等)为一步,在transaction中的所有修改合并为一步。
+     * 被移除或替换掉的子对象和数组会取消订阅,之后对它们的修改不会被记录
+     */
+    export class History {
+
+        /**
+         * 历史记录的存储,超出容量时移除最早的记录
+         */
+        private _cache: Cache<IHistoryRecord[]>;
+        private _data: any;
+        private _capacity: number;
+        private _uid: number = 0;
+        private _undoIds: number[] = [];
+        private _redoIds: number[] = [];
+        private _subscriptions: ISubscription[] = [];
+        private _transactionDepth: number = 0;
+        private _transactionRecords: IHistoryRecord[];
+        private _isApplying: boolean;
+
+        /**
+         * @param  data      要记录的数据,JSON对象或数组
+         * @param  capacity  最多保存的步数
+         */
+        constructor(data: any, capacity: number = 100) {
+            this._cache = new Cache<IHistoryRecord[]>(capacity);
+            this._capacity = capacity;
+            this._data = data;
+            this._subscribe(data);
+        }
+
+        /**
+         * 是否有可以撤销的修改
+         */
+        get canUndo(): boolean {
+            return this._undoIds.length > 0;
+        }
+
+        /**
+         * 是否有可以重做的修改
+         */
+        get canRedo(): boolean {
+            return this._redoIds.length > 0;
+        }
+
+        /**
+         * 撤销上一步修改
+         */
+        undo(): void {
+            if (!this.canUndo) {
+                return;
+            }
+
+            let id = this._undoIds.pop();
+            let records = this._cache.get(String(id));
+
+            this._redoIds.push(id);
+            this._apply(records.slice().reverse(), true);
+        }
+
+        /**
+         * 重做上一步撤销的修改
+         */
+        redo(): void {
+            if (!this.canRedo) {
+                return;
+            }
+
+            let id = this._redoIds.pop();
+            let records = this._cache.get(String(id));
+
+            this._undoIds.push(id);
+            this._apply(records, false);
+        }
+
+        /**
+         * 把回调中的所有修改合并为一步,可以嵌套调用
+         * @param  callback  修改数据的回调
+         * @return           回调的返回值
+         */
+        transaction<T>(callback: () => T): T {
+            if (!this._transactionDepth++) {
+                this._transactionRecords = [];
+            }
+
+            try {
+                return callback();
+            }
+            finally {
+                if (!--this._transactionDepth) {
+                    let records = this._transactionRecords;
+                    this._transactionRecords = null;
+
+                    if (records.length) {
+                        this._push(records);
+                    }
+                }
+            }
+        }
+
+        /**
+         * 清空所有的历史记录
+         */
+        clear(): void {
+            this._undoIds.concat(this._redoIds).forEach(id => this._cache.remove(String(id)));
+            this._undoIds = [];
+            this._redoIds = [];
+        }
+
+        /**
+         * 取消所有的订阅并清空历史记录
+         */
+        dispose(): void {
+            this.clear();
+            this._subscriptions.forEach(unsubscribe);
+            this._subscriptions = this._cache = this._transactionRecords = this._data = null;
+        }
+
+        /**
+         * 订阅数据及其所有子对象和数组的修改记录,已经订阅的继续遍历其子数据
+         * @param  data     要订阅的数据
+         * @param  visited  已经遍历过的Observer,防止循环引用
+         */
+        private _subscribe(data: any, visited: observable.Observer[] = []): void {
+            if (!isSubscribable(data)) {
+                return;
+            }
+
+            let observer = observable.create(data);
+
+            if (visited.indexOf(observer) > -1) {
+                return;
+            }
+
+            visited.push(observer);
+
+            if (!this._subscriptions.some(subscription => subscription.observer === observer)) {
+                let subscription: ISubscription = {
+                    observer: observer,
+                    objectChanged: (change) => this._record({ target: data, object: change }),
+                    arrayChanged: (change) => this._record({ target: data, array: change })
+                };
+
+                observer.addObjectChangedCallback(subscription.objectChanged);
+                observer.addArrayChangedCallback(subscription.arrayChanged);
+                this._subscriptions.push(subscription);
+            }
+
+            if (!Array.isArray(data)) {
+                Object.keys(data).forEach(key => this._subscribe(data[key], visited));
+            }
+            else {
+                data.forEach(item => this._subscribe(item, visited));
+            }
+        }
+
+        /**
+         * 重新遍历数据,订阅新加入的子数据,取消已经不在数据中的子数据的订阅,
+         * 需要遍历整个数据,只在修改移除了对象或数组以及撤销重做后调用
+         */
+        private _resubscribe(): void {
+            let visited: observable.Observer[] = [];
+
+            this._subscribe(this._data, visited);
+            this._subscriptions = this._subscriptions.filter(subscription => {
+                if (visited.indexOf(subscription.observer) > -1) {
+                    return true;
+                }
+                unsubscribe(subscription);
+                return false;
+            });
+        }
+
+        private _record(record: IHistoryRecord): void {
+            if (this._isApplying) {
+                return;
+            }
+
+            let removed = record.object ? [record.object.oldValue] : record.array.removed;
+
+            if (removed.some(isSubscribable)) {
+                this._resubscribe();
+            }
+            else if (record.object) {
+                this._subscribe(record.object.newValue);
+            }
+            else {
+                record.array.added.forEach(item => this._subscribe(item));
+            }
+
+            if (this._transactionRecords) {
+                this._transactionRecords.push(record);
+            }
+            else {
+                this._push([record]);
+            }
+        }
+
+        /**
+         * 添加一步修改,并清空可以重做的记录
+         */
+        private _push(records: IHistoryRecord[]): void {
+            this._redoIds.forEach(id => this._cache.remove(String(id)));
+            this._redoIds = [];
+
+            let id = ++this._uid;
+
+            this._cache.set(String(id), records);
+            this._undoIds.push(id);
+
+            if (this._undoIds.length > this._capacity) {
+                // 缓存已经移除了最早的记录
+                this._undoIds.shift();
+            }
+        }
+
+        /**
+         * 撤销或重做一步修改,所有watcher只更新一次
+         */
+        private _apply(records: IHistoryRecord[], isUndo: boolean): void {
+            this._isApplying = true;
+
+            try {
+                batch(() => {
+                    records.forEach(record => {
+                        if (record.object) {
+                            applyObjectChange(record.target, record.object, isUndo);
+                        }
+                        else {
+                            applyArrayChange(record.target, record.array, isUndo);
+                        }
+                    });
+                });
+            }
+            finally {
+                this._isApplying = false;
+                this._resubscribe();
+            }
+        }
+    }
+
+    function isSubscribable(value: any): boolean {
+        return util.isPlainObjectOrObservableObject(value) || Array.isArray(value);
+    }
+
+    function unsubscribe(subscription: ISubscription): void {
+        subscription.observer.removeObjectChangedCallback(subscription.objectChanged);
+        subscription.observer.removeArrayChangedCallback(subscription.arrayChanged);
+    }
+
+    function applyObjectChange(target: any, change: observable.IObjectChange, isUndo: boolean): void {
+        if (change.type === (isUndo ? 'add' : 'delete')) {
+            observable.$remove(target, change.name);
+        }
+        else {
+            observable.$set(target, change.name, isUndo ? change.oldValue : change.newValue);
+        }
+    }
+
+    function applyArrayChange(target: any[], change: observable.IArrayChange, isUndo: boolean): void {
+        let removed = isUndo ? change.added : change.removed;
+        let added = isUndo ? change.removed : change.added;
+
+        target.splice(change.index, removed.length, ...added);
+    }
+}
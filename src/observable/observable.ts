@@ -1,6 +1,8 @@
 /// <reference path="../util/util.ts" />
+/// <reference path="../config/config.ts" />
 /// <reference path="./observableArray.ts" />
 /// <reference path="./observableObject.ts" />
+/// <reference path="./observableCollection.ts" />
 /// <reference path="./observer.ts" />
 /// <reference path="../events/eventemitter.ts" />
 
@@ -10,15 +12,17 @@
 namespace drunk.observable {
 
     import util = drunk.util;
+    import config = drunk.config;
 
     /**
      * 根据数据返回对应的Observer 实例，如果该数据已经存在对应的 Observer 实例则直接返回，否则创建一个新的实例
-     * @param data 数组或JSON对象
+     * @param data 数组,JSON对象,Map或Set
      */
     export function create<T>(data: IObservableArray<T> | IObservableObject | any): Observer {
         let isObject = util.isPlainObjectOrObservableObject(data);
+        let isCollection = isMap(data) || isSet(data);
 
-        if (!isObject && !Array.isArray(data)) {
+        if (!isObject && !isCollection && !Array.isArray(data)) {
             return;
         }
 
@@ -40,18 +44,36 @@ namespace drunk.observable {
                 // 替换原型链
                 data.__proto__ = ObservableObjectPrototype;
 
-                // 转换每个字段的getter seterr
-                Object.keys(data).forEach((property: string) => {
-                    observe(data, property, data[property]);
+                if (isProxyMode()) {
+                    // Proxy模式下只需要把每个字段的值替换成对应的Proxy
+                    Object.keys(data).forEach((property: string) => {
+                        data[property] = reactive(data[property]);
+                        linkChildObserver(data, property, data[property]);
+                    });
+                }
+                else {
+                    // 转换每个字段的getter seterr
+                    Object.keys(data).forEach((property: string) => {
+                        observe(data, property, data[property]);
+                    });
+                }
+            }
+            else if (isCollection) {
+                // 在替换原型链之前遍历,避免订阅依赖
+                data.forEach((item) => {
+                    create(item);
                 });
+
+                // 替换原型链
+                data.__proto__ = isMap(data) ? ObservableMapPrototype : ObservableSetPrototype;
             }
             else {
                 // 替换原型链
                 data.__proto__ = ObservableArrayPrototype;
 
-                // 为每一个item创建Observer实例
-                data.forEach((item) => {
-                    create(item);
+                // 为每一个item创建Observer实例,Proxy模式下替换为对应的Proxy
+                data.forEach((item, index) => {
+                    data[index] = reactive(item);
                 });
             }
         }
@@ -123,9 +145,16 @@ namespace drunk.observable {
                 valueObserver.removePropertyChangedCallback(propertyChanged);
             }
 
+            let oldValue = value;
+
             value = newValue;
             valueObserver = create(newValue);
 
+            if (newValue !== oldValue) {
+                // 赋值后再发送变更记录,回调中访问的是新的值
+                targetObserver.notifyObjectChanged({ type: 'update', name: property, oldValue, newValue });
+            }
+
             if (valueObserver) {
                 valueObserver.addPropertyChangedCallback(propertyChanged);
             }
@@ -152,4 +181,333 @@ namespace drunk.observable {
             observer.notify();
         }
     }
+
+    const NativeProxy = util.global.Proxy;
+    const NativeWeakMap = util.global.WeakMap;
+
+    let proxyByRaw = NativeWeakMap ? new NativeWeakMap() : null;
+    let rawByProxy = NativeWeakMap ? new NativeWeakMap() : null;
+    let childObservers = NativeWeakMap ? new NativeWeakMap() : null;
+
+    /**
+     * 是否使用Proxy模式
+     */
+    export function isProxyMode(): boolean {
+        return !!(config.proxy && NativeProxy && NativeWeakMap);
+    }
+
+    /**
+     * 把数据转换为可观察的数据并返回,Proxy模式下返回数据对应的Proxy,
+     * 否则返回数据本身(和create一样转换为getter/setter)
+     * @param  data  任意数据,只有JSON对象和数组会被转换
+     */
+    export function reactive<T>(data: T): T {
+        if (!isProxyMode()) {
+            create(data);
+            return data;
+        }
+
+        let target: any = data;
+
+        if (!target || typeof target !== 'object' || rawByProxy.has(target)) {
+            return data;
+        }
+
+        let isObject = util.isPlainObjectOrObservableObject(target);
+
+        if (!isObject && !Array.isArray(target)) {
+            create(target);
+            return data;
+        }
+
+        let proxy = proxyByRaw.get(target);
+
+        if (!proxy) {
+            create(target);
+            proxy = new NativeProxy(target, isObject ? objectProxyHandler : arrayProxyHandler);
+            proxyByRaw.set(target, proxy);
+            rawByProxy.set(proxy, target);
+        }
+
+        return proxy;
+    }
+
+    /**
+     * 字段的值为可观察数据时,该值的更新通知转换为字段的更新通知,与observe中的行为一致
+     */
+    function linkChildObserver(target: any, property: string, value: any) {
+        let links = childObservers.get(target);
+
+        if (!links) {
+            links = {};
+            childObservers.set(target, links);
+        }
+
+        let link = links[property];
+        if (link) {
+            link.observer.removePropertyChangedCallback(link.callback);
+            delete links[property];
+        }
+
+        let childObserver: Observer = value && typeof value === 'object' ? value.__observer__ : null;
+        if (childObserver) {
+            let targetObserver: Observer = target.__observer__;
+            let callback = () => targetObserver.$emit(property);
+
+            childObserver.addPropertyChangedCallback(callback);
+            links[property] = { observer: childObserver, callback };
+        }
+    }
+
+    function isTrackable(target: any, property: any): boolean {
+        // 原型链上的方法等不需要订阅,不存在的字段需要订阅,以便新增时能收到通知
+        return typeof property === 'string' && property !== '__observer__' && (target.hasOwnProperty(property) || !(property in target));
+    }
+
+    let objectProxyHandler = {
+        get(target: any, property: any, receiver: any) {
+            let value = target[property];
+
+            if (onPropertyAccessing && isTrackable(target, property)) {
+                onPropertyAccessing(target.__observer__, property, value, receiver);
+            }
+
+            return value;
+        },
+
+        set(target: any, property: any, value: any) {
+            if (!isTrackable(target, property)) {
+                target[property] = value;
+                return true;
+            }
+
+            let isNew = !target.hasOwnProperty(property);
+            let oldValue = target[property];
+
+            value = reactive(value);
+            target[property] = value;
+
+            if (isNew || util.isObjectOrNotEqual(value, oldValue)) {
+                if (isNew || value !== oldValue) {
+                    target.__observer__.notifyObjectChanged({ type: isNew ? 'add' : 'update', name: property, oldValue, newValue: value });
+                }
+
+                linkChildObserver(target, property, value);
+                target.__observer__.$emit(property);
+
+                if (isNew) {
+                    notify(target);
+                }
+            }
+
+            return true;
+        },
+
+        deleteProperty(target: any, property: any) {
+            if (!target.hasOwnProperty(property)) {
+                return true;
+            }
+
+            let oldValue = target[property];
+
+            delete target[property];
+
+            if (typeof property === 'string') {
+                target.__observer__.notifyObjectChanged({ type: 'delete', name: property, oldValue, newValue: undefined });
+                linkChildObserver(target, property, undefined);
+                target.__observer__.$emit(property);
+                notify(target);
+            }
+
+            return true;
+        }
+    };
+
+    let arrayProxyHandler = {
+        get(target: any, property: any) {
+            let value = target[property];
+
+            if (typeof value === 'function' && property !== 'constructor') {
+                // 数组方法直接作用在原数组上,修改数组的方法本身会发送更新通知
+                return function (...args: any[]) {
+                    return value.apply(target, args);
+                };
+            }
+
+            return value;
+        },
+
+        set(target: any, property: any, value: any) {
+            let oldValue = target[property];
+
+            value = reactive(value);
+            target[property] = value;
+
+            if (typeof property === 'string' && property !== '__observer__' && util.isObjectOrNotEqual(value, oldValue)) {
+                notify(target);
+            }
+
+            return true;
+        },
+
+        deleteProperty(target: any, property: any) {
+            if (target.hasOwnProperty(property)) {
+                delete target[property];
+                notify(target);
+            }
+            return true;
+        }
+    };
+
+    let readonlyByRaw = NativeWeakMap ? new NativeWeakMap() : null;
+    let rawByReadonly = NativeWeakMap ? new NativeWeakMap() : null;
+
+    /**
+     * 只读视图中会修改数组的方法
+     */
+    const arrayMutators = ['push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', '$setAt', '$removeAt', '$removeItem', '$removeAllItem', '$removeAll'];
+
+    /**
+     * 对只读视图进行修改时,debug模式下给出警告,否则抛出错误
+     */
+    function readonlyError(property: any): void {
+        let message = `不能修改只读数据的字段: ${String(property)}`;
+
+        if (config.debug) {
+            console.warn(message);
+        }
+        else {
+            throw new Error(message);
+        }
+    }
+
+    /**
+     * 返回数据的只读视图,访问视图的字段和原数据一样会订阅依赖,嵌套的对象和数组也是只读的,
+     * 对视图的任何修改都会抛出错误(debug模式下只给出警告)。不支持Proxy的环境下,
+     * 视图只包含创建时已有的字段和数组元素
+     * @param  data  JSON对象或数组,其他类型的数据直接返回
+     */
+    export function readonly<T>(data: T): T {
+        let target: any = data;
+
+        if (!util.isPlainObjectOrObservableObject(target) && !Array.isArray(target)) {
+            return data;
+        }
+        if (rawByReadonly && rawByReadonly.has(target)) {
+            return data;
+        }
+
+        let source = reactive(target);
+        let view = readonlyByRaw && readonlyByRaw.get(source);
+
+        if (view) {
+            return view;
+        }
+
+        if (NativeProxy) {
+            view = new NativeProxy(source, readonlyProxyHandler);
+        }
+        else {
+            view = createReadonlyView(source);
+
+            if (Array.isArray(source)) {
+                // 数组的视图只是创建时的快照,不缓存
+                return view;
+            }
+        }
+
+        if (readonlyByRaw) {
+            readonlyByRaw.set(source, view);
+            rawByReadonly.set(view, source);
+        }
+
+        return view;
+    }
+
+    let readonlyProxyHandler = {
+        get(target: any, property: any) {
+            if (Array.isArray(target) && arrayMutators.indexOf(property) > -1) {
+                return () => readonlyError(property);
+            }
+
+            let value = target[property];
+            return property === '__observer__' ? value : readonly(value);
+        },
+
+        set(target: any, property: any) {
+            readonlyError(property);
+            return true;
+        },
+
+        deleteProperty(target: any, property: any) {
+            readonlyError(property);
+            return true;
+        },
+
+        defineProperty(target: any, property: any) {
+            readonlyError(property);
+            return true;
+        }
+    };
+
+    /**
+     * 不支持Proxy时,用getter/setter生成只读视图
+     */
+    function createReadonlyView(source: any): any {
+        let view: any = Array.isArray(source) ? [] : {};
+        let keys = Array.isArray(source) ? source.map((item, index) => String(index)) : Object.keys(source);
+
+        keys.forEach(key => {
+            Object.defineProperty(view, key, {
+                enumerable: true,
+                get: () => readonly(source[key]),
+                set: () => readonlyError(key)
+            });
+        });
+
+        if (Array.isArray(source)) {
+            arrayMutators.forEach(name => {
+                Object.defineProperty(view, name, {
+                    value: () => readonlyError(name)
+                });
+            });
+        }
+
+        return Object.preventExtensions(view);
+    }
+
+    /**
+     * 返回数据去掉observer等内部信息后的深拷贝,Proxy和只读视图会先转换为原始数据
+     * @param  data  任意数据,JSON对象,数组,Map和Set会被深拷贝
+     */
+    export function toRaw<T>(data: T): T {
+        let target: any = data;
+
+        while (target && typeof target === 'object' && (rawByReadonly && rawByReadonly.has(target) || rawByProxy && rawByProxy.has(target))) {
+            target = rawByReadonly.has(target) ? rawByReadonly.get(target) : rawByProxy.get(target);
+        }
+
+        if (Array.isArray(target)) {
+            return <any>target.map(toRaw);
+        }
+        if (util.isPlainObjectOrObservableObject(target)) {
+            let result = {};
+            Object.keys(target).forEach(key => {
+                result[key] = toRaw(target[key]);
+            });
+            return <any>result;
+        }
+        if (isMap(target)) {
+            let result = new util.global.Map();
+            target.forEach((value, key) => result.set(key, toRaw(value)));
+            return result;
+        }
+        if (isSet(target)) {
+            let result = new util.global.Set();
+            target.forEach(value => result.add(toRaw(value)));
+            return result;
+        }
+
+        return target;
+    }
 }
@@ -22,6 +22,42 @@ namespace drunk.observable {
         $removeAll?(): void;
     }
 
+    /**
+     * 为新加入数组的item创建Observer实例,Proxy模式下转换为对应的Proxy
+     */
+    function toObservableItems(items: any[]): any[] {
+        if (isProxyMode()) {
+            return items.map(reactive);
+        }
+        items.forEach(create);
+        return items;
+    }
+
+    /**
+     * 发送数组的变更记录和数组更新通知
+     * @param  array    observableArray类型的数组
+     * @param  index    变更开始的下标
+     * @param  removed  被移除的元素
+     * @param  added    新插入的元素
+     */
+    function notifySplice(array: IObservableArray<any>, index: number, removed: any[], added: any[]): void {
+        let observer = array.__observer__;
+
+        if (observer && (removed.length || added.length)) {
+            observer.notifyArrayChanged({ index, removed, added });
+        }
+
+        notify(array);
+    }
+
+    /**
+     * 把splice的开始下标转换为实际的下标
+     */
+    function getSpliceIndex(start: any, length: number): number {
+        let index = Math.floor(Number(start)) || 0;
+        return index < 0 ? Math.max(length + index, 0) : Math.min(index, length);
+    }
+
     /**
      * 数组转换成observable后指向的原型对象
      */
@@ -35,7 +71,14 @@ namespace drunk.observable {
      */
     export function $setAt<T>(array: IObservableArray<T>, index: number, value: T): void {
         if (index > array.length) {
-            array.length = index + 1;
+            // 中间的空位用undefined填充,和新的值一起添加,保证只有一条与数组下标一致的变更记录
+            let fill = [];
+            for (let i = array.length; i < index; i++) {
+                fill.push(undefined);
+            }
+            fill.push(value);
+            array.push(...fill);
+            return;
         }
 
         array.splice(index, 1, value);
@@ -52,7 +95,7 @@ namespace drunk.observable {
         if (index > -1 && index < array.length) {
             result = Array.prototype.splice.call(array, index, 1)[0];
 
-            notify(array);
+            notifySplice(array, index, [result], []);
         }
 
         return result;
@@ -95,8 +138,9 @@ namespace drunk.observable {
      */
     export function $removeAll<T>(array: IObservableArray<T>) {
         if (array.length) {
+            let removed = array.slice();
             array.length = 0;
-            notify(array);
+            notifySplice(array, 0, removed, []);
         }
     }
 
@@ -155,59 +199,65 @@ namespace drunk.observable {
 
         pop: {
             value: function pop() {
+                let removed = this.length ? [this[this.length - 1]] : [];
                 let result = Array.prototype.pop.call(this);
-                notify(this);
+                notifySplice(this, this.length, removed, []);
                 return result;
             }
         },
 
         shift: {
             value: function shift() {
+                let removed = this.length ? [this[0]] : [];
                 let result = Array.prototype.shift.call(this);
-                notify(this);
+                notifySplice(this, 0, removed, []);
                 return result;
             }
         },
 
         push: {
             value: function push(...args: any[]) {
-                let result = Array.prototype.push.apply(this, args);
-                args.forEach(create);
-                notify(this);
+                let index = this.length;
+                let added = toObservableItems(args);
+                let result = Array.prototype.push.apply(this, added);
+                notifySplice(this, index, [], added);
                 return result;
             }
         },
 
         unshift: {
             value: function unshift(...args: any[]) {
-                let result = Array.prototype.unshift.apply(this, args);
-                args.forEach(create);
-                notify(this);
+                let added = toObservableItems(args);
+                let result = Array.prototype.unshift.apply(this, added);
+                notifySplice(this, 0, [], added);
                 return result;
             }
         },
 
         splice: {
             value: function splice(...args: any[]) {
-                let result = Array.prototype.splice.apply(this, args);
-                args.slice(2).forEach(create);
-                notify(this);
+                let index = getSpliceIndex(args[0], this.length);
+                let added = toObservableItems(args.slice(2));
+                let result = Array.prototype.splice.apply(this, args.slice(0, 2).concat(added));
+                notifySplice(this, index, result, added);
                 return result;
             }
         },
 
         sort: {
             value: function sort(callback?: (a: any, b: any) => any[]) {
+                let removed = this.slice();
                 let result = Array.prototype.sort.call(this, callback);
-                notify(this);
+                notifySplice(this, 0, removed, this.slice());
                 return result;
             }
         },
 
         reverse: {
             value: function reverse() {
+                let removed = this.slice();
                 let result = Array.prototype.reverse.call(this);
-                notify(this);
+                notifySplice(this, 0, removed, this.slice());
                 return result;
             }
         }
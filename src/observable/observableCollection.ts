@@ -0,0 +1,245 @@
+/// <reference path="../util/util.ts" />
+/// <reference path="./observable.ts" />
+
+/**
+ * 转换后的可以监控的Map和Set
+ * 读取方法(get/has/size/遍历)会通过onPropertyAccessing订阅依赖,修改方法会发送数据更新的通知。
+ */
+namespace drunk.observable {
+
+    import util = drunk.util;
+
+    /**
+     * 可监控Map的声明
+     */
+    export interface IObservableMap {
+        __observer__?: Observer;
+        size: number;
+        get(key: any): any;
+        set(key: any, value: any): IObservableMap;
+        has(key: any): boolean;
+        delete(key: any): boolean;
+        clear(): void;
+        forEach(callback: (value: any, key: any, map: IObservableMap) => void, thisArg?: any): void;
+    }
+
+    /**
+     * 可监控Set的声明
+     */
+    export interface IObservableSet {
+        __observer__?: Observer;
+        size: number;
+        add(value: any): IObservableSet;
+        has(value: any): boolean;
+        delete(value: any): boolean;
+        clear(): void;
+        forEach(callback: (value: any, value2: any, set: IObservableSet) => void, thisArg?: any): void;
+    }
+
+    const NativeMap = util.global.Map;
+    const NativeSet = util.global.Set;
+    const iteratorSymbol = util.global.Symbol && util.global.Symbol.iterator;
+
+    /**
+     * 访问size或遍历时订阅的属性名,任意元素改变都会派发该属性的更新
+     */
+    const iterateProperty = '__iterate__';
+
+    /**
+     * Map转换成observable后指向的原型对象,不支持Map的环境下为null
+     */
+    export var ObservableMapPrototype: IObservableMap = NativeMap ? Object.create(NativeMap.prototype) : null;
+
+    /**
+     * Set转换成observable后指向的原型对象,不支持Set的环境下为null
+     */
+    export var ObservableSetPrototype: IObservableSet = NativeSet ? Object.create(NativeSet.prototype) : null;
+
+    /**
+     * 判断是否是Map实例
+     */
+    export function isMap(target: any): boolean {
+        return !!NativeMap && target instanceof NativeMap;
+    }
+
+    /**
+     * 判断是否是Set实例
+     */
+    export function isSet(target: any): boolean {
+        return !!NativeSet && target instanceof NativeSet;
+    }
+
+    /**
+     * 根据Map的key或Set的值生成订阅的属性名,对象类型使用其唯一id
+     */
+    function getKeyProperty(key: any): string {
+        if (key !== null && (typeof key === 'object' || typeof key === 'function')) {
+            return Object.isExtensible(key) ? 'object:' + util.uniqueId(key) : iterateProperty;
+        }
+        return typeof key + ':' + String(key);
+    }
+
+    function track(target: any, property: string): void {
+        if (onPropertyAccessing) {
+            onPropertyAccessing(target.__observer__, property, undefined, target);
+        }
+    }
+
+    function trigger(target: any, properties: string[]): void {
+        let observer: Observer = target.__observer__;
+        properties.forEach(property => observer.$emit(property));
+        notify(target);
+    }
+
+    /**
+     * 生成遍历类方法的描述,遍历前订阅所有元素的更新
+     */
+    function createIterateMethod(nativeMethod: Function): PropertyDescriptor {
+        return {
+            value: function (...args: any[]) {
+                track(this, iterateProperty);
+                return nativeMethod.apply(this, args);
+            }
+        };
+    }
+
+    function defineCollectionPrototype(prototype: any, nativePrototype: any, descriptors: PropertyDescriptorMap): void {
+        let getSize = Object.getOwnPropertyDescriptor(nativePrototype, 'size').get;
+
+        descriptors['size'] = {
+            get: function () {
+                track(this, iterateProperty);
+                return getSize.call(this);
+            }
+        };
+
+        ['forEach', 'keys', 'values', 'entries'].forEach(name => {
+            descriptors[name] = createIterateMethod(nativePrototype[name]);
+        });
+
+        Object.defineProperties(prototype, descriptors);
+
+        if (iteratorSymbol) {
+            Object.defineProperty(prototype, iteratorSymbol, createIterateMethod(nativePrototype[iteratorSymbol]));
+        }
+    }
+
+    if (NativeMap) {
+        let nativeProto = NativeMap.prototype;
+
+        defineCollectionPrototype(ObservableMapPrototype, nativeProto, {
+
+            /**
+             * 获取key对应的值,并订阅该key的更新
+             */
+            get: {
+                value: function get(key: any) {
+                    track(this, getKeyProperty(key));
+                    return nativeProto.get.call(this, key);
+                }
+            },
+
+            has: {
+                value: function has(key: any) {
+                    track(this, getKeyProperty(key));
+                    return nativeProto.has.call(this, key);
+                }
+            },
+
+            /**
+             * 设置key对应的值,值改变时发送更新通知
+             */
+            set: {
+                value: function set(key: any, value: any) {
+                    let isNew = !nativeProto.has.call(this, key);
+                    let oldValue = nativeProto.get.call(this, key);
+
+                    nativeProto.set.call(this, key, value);
+
+                    if (isNew || util.isObjectOrNotEqual(value, oldValue)) {
+                        create(value);
+                        trigger(this, [getKeyProperty(key), iterateProperty]);
+                    }
+                    return this;
+                }
+            },
+
+            delete: {
+                value: function deleteMapItem(key: any) {
+                    let result = nativeProto.delete.call(this, key);
+                    if (result) {
+                        trigger(this, [getKeyProperty(key), iterateProperty]);
+                    }
+                    return result;
+                }
+            },
+
+            clear: {
+                value: function clear() {
+                    let properties = [iterateProperty];
+
+                    nativeProto.forEach.call(this, (value, key) => properties.push(getKeyProperty(key)));
+
+                    if (properties.length > 1) {
+                        nativeProto.clear.call(this);
+                        trigger(this, properties);
+                    }
+                }
+            }
+        });
+    }
+
+    if (NativeSet) {
+        let nativeProto = NativeSet.prototype;
+
+        defineCollectionPrototype(ObservableSetPrototype, nativeProto, {
+
+            /**
+             * 判断是否包含某个值,并订阅该值的更新
+             */
+            has: {
+                value: function has(value: any) {
+                    track(this, getKeyProperty(value));
+                    return nativeProto.has.call(this, value);
+                }
+            },
+
+            /**
+             * 添加值,如果是新的值发送更新通知
+             */
+            add: {
+                value: function add(value: any) {
+                    if (!nativeProto.has.call(this, value)) {
+                        nativeProto.add.call(this, value);
+                        create(value);
+                        trigger(this, [getKeyProperty(value), iterateProperty]);
+                    }
+                    return this;
+                }
+            },
+
+            delete: {
+                value: function deleteSetItem(value: any) {
+                    let result = nativeProto.delete.call(this, value);
+                    if (result) {
+                        trigger(this, [getKeyProperty(value), iterateProperty]);
+                    }
+                    return result;
+                }
+            },
+
+            clear: {
+                value: function clear() {
+                    let properties = [iterateProperty];
+
+                    nativeProto.forEach.call(this, value => properties.push(getKeyProperty(value)));
+
+                    if (properties.length > 1) {
+                        nativeProto.clear.call(this);
+                        trigger(this, properties);
+                    }
+                }
+            }
+        });
+    }
+}
@@ -22,6 +22,12 @@ namespace drunk.observable {
      * @param  name   字段名
      */
     export function $set(data: IObservableObject, name: string, value: any): void {
+        if (isProxyMode()) {
+            // Proxy模式下直接赋值即可
+            reactive(data)[name] = value;
+            return;
+        }
+
         var descriptor = Object.getOwnPropertyDescriptor(data, name);
 
         if (!descriptor || (!descriptor.get && !descriptor.set)) {
@@ -29,6 +35,9 @@ namespace drunk.observable {
 
             observable.observe(data, name, value);
 
+            if (!descriptor || oldValue !== value) {
+                data.__observer__.notifyObjectChanged({ type: descriptor ? 'update' : 'add', name, oldValue, newValue: value });
+            }
             if (oldValue !== value) {
                 notify(data);
             }
@@ -48,7 +57,18 @@ namespace drunk.observable {
             return;
         }
 
+        if (isProxyMode()) {
+            delete reactive(data)[name];
+            return;
+        }
+
+        var oldValue: any = data[name];
+
         delete data[name];
+
+        if (data.__observer__) {
+            data.__observer__.notifyObjectChanged({ type: 'delete', name, oldValue, newValue: undefined });
+        }
         notify(data);
     }
 
@@ -1,4 +1,5 @@
 /// <reference path="../util/util.ts" />
+/// <reference path="../config/config.ts" />
 /// <reference path="./observableArray.ts" />
 /// <reference path="./observableObject.ts" />
 /// <reference path="../events/eventemitter.ts" />
@@ -6,8 +7,33 @@
 namespace drunk.observable {
     
     import util = drunk.util;
+    import config = drunk.config;
     import EventEmitter = drunk.EventEmitter;
     
+    /**
+     * 数组的变更记录,与splice的参数对应:在index处移除了removed中的元素,再插入了added中的元素
+     */
+    export interface IArrayChange {
+        index: number;
+        removed: any[];
+        added: any[];
+    }
+    
+    /**
+     * 对象字段的变更记录,type为'add','update'或'delete'
+     */
+    export interface IObjectChange {
+        type: string;
+        name: string;
+        oldValue: any;
+        newValue: any;
+    }
+    
+    /**
+     * debug模式下正在派发更新的observer和属性,用于记录watcher的更新是由哪个属性触发的
+     */
+    export var changingProperty: { observer: Observer; property: string };
+    
     /**
      * 监控对象类，为每个需要监控的对象和数组生成一个实例，用于代理监听事件
      */
@@ -18,6 +44,38 @@ namespace drunk.observable {
          */
         private _propertyChangedCallbackList: IEventListener[];
         
+        /**
+         * 数组变更记录的回调函数列表
+         */
+        private _arrayChangedCallbackList: ((change: IArrayChange) => void)[];
+        
+        /**
+         * 对象字段变更记录的回调函数列表
+         */
+        private _objectChangedCallbackList: ((change: IObjectChange) => void)[];
+        
+        /**
+         * 派发属性的更新,debug模式下派发期间会设置observable.changingProperty
+         * @param  property  属性名
+         */
+        $emit(property: string, ...args: any[]) {
+            if (!config.debug) {
+                super.$emit(property, ...args);
+                return this;
+            }
+            
+            let previous = changingProperty;
+            changingProperty = { observer: this, property };
+            
+            try {
+                super.$emit(property, ...args);
+            }
+            finally {
+                changingProperty = previous;
+            }
+            return this;
+        }
+        
         /**
          * 添加任意属性改变的回调
          */
@@ -52,5 +110,75 @@ namespace drunk.observable {
             
             this._propertyChangedCallbackList.slice().forEach(callback => callback());
         }
+            
+        /**
+         * 添加数组变更记录的回调
+         */
+        addArrayChangedCallback(callback: (change: IArrayChange) => void) {
+            if (!this._arrayChangedCallbackList) {
+                this._arrayChangedCallbackList = [];
+            }
+            util.addArrayItem(this._arrayChangedCallbackList, callback);
+        }
+        
+        /**
+         * 移除数组变更记录的指定回调
+         */
+        removeArrayChangedCallback(callback: (change: IArrayChange) => void) {
+            if (!this._arrayChangedCallbackList) {
+                return;
+            }
+            util.removeArrayItem(this._arrayChangedCallbackList, callback);
+            
+            if (this._arrayChangedCallbackList.length === 0) {
+                this._arrayChangedCallbackList = null;
+            }
+        }
+
+        /**
+         * 发送数组的变更记录,在notify之前调用
+         */
+        notifyArrayChanged(change: IArrayChange) {
+            if (!this._arrayChangedCallbackList) {
+                return;
+            }
+            
+            this._arrayChangedCallbackList.slice().forEach(callback => callback(change));
+        }
+            
+        /**
+         * 添加对象字段变更记录的回调
+         */
+        addObjectChangedCallback(callback: (change: IObjectChange) => void) {
+            if (!this._objectChangedCallbackList) {
+                this._objectChangedCallbackList = [];
+            }
+            util.addArrayItem(this._objectChangedCallbackList, callback);
+        }
+        
+        /**
+         * 移除对象字段变更记录的指定回调
+         */
+        removeObjectChangedCallback(callback: (change: IObjectChange) => void) {
+            if (!this._objectChangedCallbackList) {
+                return;
+            }
+            util.removeArrayItem(this._objectChangedCallbackList, callback);
+            
+            if (this._objectChangedCallbackList.length === 0) {
+                this._objectChangedCallbackList = null;
+            }
+        }
+
+        /**
+         * 发送对象字段的变更记录
+         */
+        notifyObjectChanged(change: IObjectChange) {
+            if (!this._objectChangedCallbackList) {
+                return;
+            }
+            
+            this._objectChangedCallbackList.slice().forEach(callback => callback(change));
+        }
     }
 }
@@ -0,0 +1,297 @@
+/// <reference path="../util/util.ts" />
+/// <reference path="./observable.ts" />
+/// <reference path="./observableObject.ts" />
+/// <reference path="./observableArray.ts" />
+
+/**
+ * JSON Patch(RFC 6902)的生成和应用
+ */
+namespace drunk.observable {
+
+    import util = drunk.util;
+
+    /**
+     * JSON Patch的操作,op为'add','remove','replace','move','copy'或'test',
+     * path和from为JSON Pointer(RFC 6901)格式的路径
+     */
+    export interface IPatchOperation {
+        op: string;
+        path: string;
+        from?: string;
+        value?: any;
+    }
+
+    /**
+     * 对比两个数据,返回把a变为b需要的操作列表,操作中的值是去掉observer等内部信息的拷贝
+     * @param  a  原数据
+     * @param  b  新数据
+     */
+    export function diff(a: any, b: any): IPatchOperation[] {
+        let operations: IPatchOperation[] = [];
+        diffValue(a, b, '', operations);
+        return operations;
+    }
+
+    /**
+     * 依次应用JSON Patch的操作,对象字段的修改通过$set和$remove,数组的修改通过splice和$setAt,
+     * 所以相关的watcher都会收到更新,任意一个操作失败时抛出错误(之前的操作不会回滚)
+     * @param  data   要修改的数据
+     * @param  patch  操作列表
+     * @return        修改后的数据,只有操作了根路径时才会和data不同
+     */
+    export function applyPatch(data: any, patch: IPatchOperation[]): any {
+        patch.forEach(operation => {
+            data = applyOperation(data, operation);
+        });
+        return data;
+    }
+
+    function diffValue(a: any, b: any, path: string, operations: IPatchOperation[]): void {
+        if (a === b) {
+            return;
+        }
+
+        if (Array.isArray(a) && Array.isArray(b)) {
+            return diffArray(a, b, path, operations);
+        }
+
+        if (util.isPlainObjectOrObservableObject(a) && util.isPlainObjectOrObservableObject(b)) {
+            Object.keys(a).forEach(key => {
+                if (!b.hasOwnProperty(key)) {
+                    operations.push({ op: 'remove', path: path + '/' + escapeKey(key) });
+                }
+                else {
+                    diffValue(a[key], b[key], path + '/' + escapeKey(key), operations);
+                }
+            });
+            Object.keys(b).forEach(key => {
+                if (!a.hasOwnProperty(key)) {
+                    operations.push({ op: 'add', path: path + '/' + escapeKey(key), value: toRaw(b[key]) });
+                }
+            });
+            return;
+        }
+
+        if (!isEqual(a, b)) {
+            operations.push({ op: 'replace', path, value: toRaw(b) });
+        }
+    }
+
+    /**
+     * 先去掉相同的头部和尾部,中间部分逐个对比,多出的元素生成add,缺少的元素从后往前生成remove
+     */
+    function diffArray(a: any[], b: any[], path: string, operations: IPatchOperation[]): void {
+        let start = 0;
+        let endA = a.length;
+        let endB = b.length;
+
+        while (start < endA && start < endB && isEqual(a[start], b[start])) {
+            start++;
+        }
+        while (endA > start && endB > start && isEqual(a[endA - 1], b[endB - 1])) {
+            endA--;
+            endB--;
+        }
+
+        let common = Math.min(endA, endB) - start;
+        let i: number;
+
+        for (i = start; i < start + common; i++) {
+            diffValue(a[i], b[i], path + '/' + i, operations);
+        }
+        for (i = start + common; i < endB; i++) {
+            operations.push({ op: 'add', path: path + '/' + i, value: toRaw(b[i]) });
+        }
+        for (i = endA - 1; i >= start + common; i--) {
+            operations.push({ op: 'remove', path: path + '/' + i });
+        }
+    }
+
+    /**
+     * 深度比较两个JSON数据是否相等
+     */
+    function isEqual(a: any, b: any): boolean {
+        if (a === b) {
+            return true;
+        }
+        if (Array.isArray(a) && Array.isArray(b)) {
+            return a.length === b.length && a.every((item, index) => isEqual(item, b[index]));
+        }
+        if (util.isPlainObjectOrObservableObject(a) && util.isPlainObjectOrObservableObject(b)) {
+            let keys = Object.keys(a);
+            return keys.length === Object.keys(b).length && keys.every(key => b.hasOwnProperty(key) && isEqual(a[key], b[key]));
+        }
+        if (a instanceof Date && b instanceof Date) {
+            return a.getTime() === b.getTime();
+        }
+        return false;
+    }
+
+    function escapeKey(key: string): string {
+        return key.replace(/~/g, '~0').replace(/\//g, '~1');
+    }
+
+    /**
+     * 把JSON Pointer解析为字段列表
+     */
+    function parsePointer(pointer: string): string[] {
+        if (pointer === '') {
+            return [];
+        }
+        if (pointer.charAt(0) !== '/') {
+            throw new Error(`错误的JSON Pointer: "${pointer}"`);
+        }
+        return pointer.slice(1).split('/').map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'));
+    }
+
+    /**
+     * 根据字段列表获取值,路径不存在时抛出错误
+     */
+    function getByKeys(data: any, keys: string[], pointer: string): any {
+        keys.forEach(key => {
+            if (!hasKey(data, key)) {
+                throw new Error(`路径不存在: "${pointer}"`);
+            }
+            data = data[key];
+        });
+        return data;
+    }
+
+    function hasKey(target: any, key: string): boolean {
+        if (Array.isArray(target)) {
+            return /^(0|[1-9]\d*)$/.test(key) && Number(key) < target.length;
+        }
+        return target != null && typeof target === 'object' && target.hasOwnProperty(key);
+    }
+
+    /**
+     * 获取数组操作的下标,add操作允许'-'和等于数组长度的下标
+     */
+    function getArrayIndex(array: any[], key: string, isAdd: boolean, pointer: string): number {
+        let length = isAdd ? array.length + 1 : array.length;
+        let index = key === '-' && isAdd ? array.length : (/^(0|[1-9]\d*)$/.test(key) ? Number(key) : -1);
+
+        if (index < 0 || index >= length) {
+            throw new Error(`数组下标不正确: "${pointer}"`);
+        }
+        return index;
+    }
+
+    function applyOperation(data: any, operation: IPatchOperation): any {
+        let path = operation.path;
+
+        switch (operation.op) {
+            case 'add':
+                return addValue(data, path, toRaw(operation.value));
+            case 'remove':
+                return removeValue(data, path);
+            case 'replace':
+                return replaceValue(data, path, toRaw(operation.value));
+            case 'move':
+                if (path.indexOf(operation.from + '/') === 0) {
+                    throw new Error(`不能把"${operation.from}"移动到它的子路径"${path}"`);
+                }
+                if (path === operation.from) {
+                    return data;
+                }
+                let value = getByKeys(data, parsePointer(operation.from), operation.from);
+                data = removeValue(data, operation.from);
+                return addValue(data, path, value);
+            case 'copy':
+                return addValue(data, path, toRaw(getByKeys(data, parsePointer(operation.from), operation.from)));
+            case 'test':
+                if (!isEqual(getByKeys(data, parsePointer(path), path), operation.value)) {
+                    throw new Error(`test操作失败: "${path}"`);
+                }
+                return data;
+        }
+
+        throw new Error(`不支持的patch操作: ${operation.op}`);
+    }
+
+    function addValue(data: any, path: string, value: any): any {
+        let keys = parsePointer(path);
+
+        if (!keys.length) {
+            return value;
+        }
+
+        let key = keys.pop();
+        let parent = getByKeys(data, keys, path);
+
+        if (Array.isArray(parent)) {
+            parent.splice(getArrayIndex(parent, key, true, path), 0, value);
+        }
+        else if (parent != null && typeof parent === 'object') {
+            setKey(parent, key, value);
+        }
+        else {
+            throw new Error(`路径不存在: "${path}"`);
+        }
+
+        return data;
+    }
+
+    function removeValue(data: any, path: string): any {
+        let keys = parsePointer(path);
+
+        if (!keys.length) {
+            return undefined;
+        }
+
+        let key = keys.pop();
+        let parent = getByKeys(data, keys, path);
+
+        if (!hasKey(parent, key)) {
+            throw new Error(`路径不存在: "${path}"`);
+        }
+
+        if (Array.isArray(parent)) {
+            parent.splice(Number(key), 1);
+        }
+        else if (parent.__observer__) {
+            $remove(parent, key);
+        }
+        else {
+            delete parent[key];
+        }
+
+        return data;
+    }
+
+    function replaceValue(data: any, path: string, value: any): any {
+        let keys = parsePointer(path);
+
+        if (!keys.length) {
+            return value;
+        }
+
+        let key = keys.pop();
+        let parent = getByKeys(data, keys, path);
+
+        if (!hasKey(parent, key)) {
+            throw new Error(`路径不存在: "${path}"`);
+        }
+
+        if (Array.isArray(parent)) {
+            $setAt(parent, Number(key), value);
+        }
+        else {
+            setKey(parent, key, value);
+        }
+
+        return data;
+    }
+
+    /**
+     * 可观察的对象通过$set设置字段,普通对象直接赋值
+     */
+    function setKey(target: any, key: string, value: any): void {
+        if (target.__observer__) {
+            $set(target, key, value);
+        }
+        else {
+            target[key] = value;
+        }
+    }
+}
@@ -0,0 +1,776 @@
+/// <reference path="../util/util.ts" />
+/// <reference path="../cache/cache.ts" />
+
+/**
+ * 表达式的词法和语法分析,把表达式解析成带有位置信息的语法树,
+ * getter/setter的生成,表达式校验和编辑器工具都基于该语法树
+ */
+namespace drunk.Parser {
+
+    import Cache = drunk.Cache;
+
+    /**
+     * 语法树节点,start和end为节点在表达式中的起止位置
+     */
+    export interface INode {
+        type: string;
+        start: number;
+        end: number;
+    }
+
+    /**
+     * 字面量: 数字,字符串,true,false,null,undefined
+     */
+    export interface ILiteral extends INode {
+        value: any;
+    }
+
+    /**
+     * 变量名,$event,$el,$global也作为变量名节点
+     */
+    export interface IIdentifier extends INode {
+        name: string;
+    }
+
+    export interface IThisExpression extends INode {
+    }
+
+    export interface IArrayExpression extends INode {
+        elements: INode[];
+    }
+
+    export interface IProperty {
+        key: string;
+        value: INode;
+    }
+
+    export interface IObjectExpression extends INode {
+        properties: IProperty[];
+    }
+
+    /**
+     * 属性访问,a.b的property为Literal节点,a[b]的property为任意表达式节点且computed为true
+     */
+    export interface IMemberExpression extends INode {
+        object: INode;
+        property: INode;
+        computed: boolean;
+    }
+
+    /**
+     * 方法调用,callee为Identifier时通过viewModel的__getHandler查找方法
+     */
+    export interface ICallExpression extends INode {
+        callee: INode;
+        arguments: INode[];
+    }
+
+    export interface IUnaryExpression extends INode {
+        operator: string;
+        argument: INode;
+    }
+
+    export interface IUpdateExpression extends INode {
+        operator: string;
+        prefix: boolean;
+        argument: INode;
+    }
+
+    /**
+     * 二元运算,type为LogicalExpression时operator为&&或||
+     */
+    export interface IBinaryExpression extends INode {
+        operator: string;
+        left: INode;
+        right: INode;
+    }
+
+    export interface IConditionalExpression extends INode {
+        test: INode;
+        consequent: INode;
+        alternate: INode;
+    }
+
+    export interface IAssignmentExpression extends INode {
+        operator: string;
+        left: INode;
+        right: INode;
+    }
+
+    export interface ISequenceExpression extends INode {
+        expressions: INode[];
+    }
+
+    /**
+     * filter调用, "| name:arg1, arg2"
+     */
+    export interface IFilterNode extends INode {
+        name: string;
+        arguments: INode[];
+    }
+
+    /**
+     * 带有filter的表达式,只会出现在语法树的根节点
+     */
+    export interface IFilterExpression extends INode {
+        input: INode;
+        filters: IFilterNode[];
+    }
+
+    interface IToken {
+        type: string;
+        value: any;
+        start: number;
+        end: number;
+    }
+
+    /**
+     * 表达式校验结果
+     */
+    export interface IValidationResult {
+        valid: boolean;
+        expression: string;
+        index?: number;
+        message?: string;
+    }
+
+    const TOKEN_NUMBER = 'number';
+    const TOKEN_STRING = 'string';
+    const TOKEN_NAME = 'name';
+    const TOKEN_PUNCTUATOR = 'punctuator';
+    const TOKEN_EOF = 'eof';
+
+    // 按长度从长到短排列,保证优先匹配最长的操作符
+    const punctuators: string[] = [
+        '===', '!==', '>>>',
+        '==', '!=', '<=', '>=', '&&', '||', '++', '--', '+=', '-=', '*=', '/=', '%=', '<<', '>>',
+        '+', '-', '*', '/', '%', '<', '>', '!', '~', '&', '^', '|', '?', ':', '=', '.', ',', '(', ')', '[', ']', '{', '}'
+    ];
+
+    const literals: { [name: string]: any } = {
+        'true': true,
+        'false': false,
+        'null': null,
+        'undefined': undefined
+    };
+
+    // 表达式中不允许出现的保留字
+    const reservedWords: string[] = [
+        'break', 'case', 'catch', 'continue', 'debugger', 'default', 'do', 'else', 'finally',
+        'for', 'function', 'if', 'new', 'return', 'switch', 'throw', 'try', 'var', 'while',
+        'class', 'with', 'let', 'abstract', 'import', 'yield', 'arguments'
+    ];
+
+    const unaryOperators: string[] = ['!', '~', '-', '+', 'typeof', 'void', 'delete'];
+    const assignmentOperators: string[] = ['=', '+=', '-=', '*=', '/=', '%='];
+
+    const binaryPrecedence: { [operator: string]: number } = {
+        '||': 1,
+        '&&': 2,
+        '|': 3,
+        '^': 4,
+        '&': 5,
+        '==': 6, '!=': 6, '===': 6, '!==': 6,
+        '<': 7, '>': 7, '<=': 7, '>=': 7, 'in': 7, 'instanceof': 7,
+        '<<': 8, '>>': 8, '>>>': 8,
+        '+': 9, '-': 9,
+        '*': 10, '/': 10, '%': 10
+    };
+
+    const escapeChars: { [char: string]: string } = {
+        'n': '\n',
+        'r': '\r',
+        't': '\t',
+        'b': '\b',
+        'f': '\f',
+        'v': '\v',
+        '0': '\0'
+    };
+
+    const reWhitespace = /\s/;
+    const reDigit = /[0-9]/;
+    const reNumber = /^(?:0[xX][0-9a-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/;
+    const reIdentifierStart = /[a-zA-Z$_]/;
+    const reIdentifierPart = /[a-zA-Z0-9$_]/;
+    const reHex = /^[0-9a-fA-F]+$/;
+
+    // 表达式中可直接访问的特殊变量,不属于viewModel的属性
+    const specialNames: string[] = ['$event', '$el', '$global'];
+
+    /**
+     * 抛出带有出错位置的解析错误,错误对象上附带expression,index和reason字段
+     */
+    function throwError(expression: string, index: number, message: string): void {
+        let error: any = new SyntaxError(`表达式"${expression}"在第${index}个字符处解析失败: ${message}`);
+
+        error.expression = expression;
+        error.index = index;
+        error.reason = message;
+
+        throw error;
+    }
+
+    /**
+     * 把表达式字符串切分成token列表
+     */
+    function tokenize(expression: string): IToken[] {
+        let tokens: IToken[] = [];
+        let length = expression.length;
+        let index = 0;
+
+        while (index < length) {
+            let char = expression.charAt(index);
+
+            if (reWhitespace.test(char)) {
+                index += 1;
+                continue;
+            }
+
+            let start = index;
+
+            if (reDigit.test(char) || (char === '.' && reDigit.test(expression.charAt(index + 1)))) {
+                let matches = expression.slice(index).match(reNumber);
+                index += matches[0].length;
+
+                if (reIdentifierPart.test(expression.charAt(index))) {
+                    throwError(expression, index, `非法的数字`);
+                }
+
+                tokens.push({ type: TOKEN_NUMBER, value: Number(matches[0]), start, end: index });
+                continue;
+            }
+
+            if (char === '"' || char === "'") {
+                let value = '';
+                let closed = false;
+
+                index += 1;
+
+                while (index < length) {
+                    let curr = expression.charAt(index++);
+
+                    if (curr === char) {
+                        closed = true;
+                        break;
+                    }
+                    if (curr !== '\\') {
+                        value += curr;
+                        continue;
+                    }
+
+                    let next = expression.charAt(index++);
+
+                    if (next === 'u' || next === 'x') {
+                        let size = next === 'u' ? 4 : 2;
+                        let hex = expression.slice(index, index + size);
+
+                        if (hex.length !== size || !reHex.test(hex)) {
+                            throwError(expression, index, `非法的转义字符`);
+                        }
+
+                        value += String.fromCharCode(parseInt(hex, 16));
+                        index += size;
+                    }
+                    else {
+                        value += escapeChars.hasOwnProperty(next) ? escapeChars[next] : next;
+                    }
+                }
+
+                if (!closed) {
+                    throwError(expression, start, `字符串未闭合`);
+                }
+
+                tokens.push({ type: TOKEN_STRING, value, start, end: index });
+                continue;
+            }
+
+            if (reIdentifierStart.test(char)) {
+                while (index < length && reIdentifierPart.test(expression.charAt(index))) {
+                    index += 1;
+                }
+
+                tokens.push({ type: TOKEN_NAME, value: expression.slice(start, index), start, end: index });
+                continue;
+            }
+
+            let punctuator: string;
+
+            for (let i = 0; i < punctuators.length; i++) {
+                if (expression.substr(index, punctuators[i].length) === punctuators[i]) {
+                    punctuator = punctuators[i];
+                    break;
+                }
+            }
+
+            if (!punctuator) {
+                throwError(expression, index, `意外的字符"${char}"`);
+            }
+
+            index += punctuator.length;
+            tokens.push({ type: TOKEN_PUNCTUATOR, value: punctuator, start, end: index });
+        }
+
+        tokens.push({ type: TOKEN_EOF, value: null, start: length, end: length });
+
+        return tokens;
+    }
+
+    /**
+     * 递归下降的表达式解析器,生成语法树
+     */
+    class ASTParser {
+
+        private _tokens: IToken[];
+        private _index: number = 0;
+
+        /**
+         * @param  expression   表达式
+         * @param  withFilters  是否允许表达式末尾带有filter,不允许时"|"只作为按位或操作符
+         */
+        constructor(public expression: string, private _withFilters: boolean) {
+            this._tokens = tokenize(expression);
+        }
+
+        parse(): INode {
+            let node = this._parseSequence();
+
+            if (this._isFilterPipe()) {
+                node = this._parseFilters(node);
+            }
+
+            let token = this._peek();
+
+            if (token.type !== TOKEN_EOF) {
+                this._unexpected(token);
+            }
+
+            return node;
+        }
+
+        private _peek(): IToken {
+            return this._tokens[this._index];
+        }
+
+        private _next(): IToken {
+            return this._tokens[this._index++];
+        }
+
+        private _is(value: string): boolean {
+            let token = this._peek();
+            return (token.type === TOKEN_PUNCTUATOR || token.type === TOKEN_NAME) && token.value === value;
+        }
+
+        /**
+         * "|"后面紧跟着名字时作为filter的分隔符,否则为按位或操作符
+         */
+        private _isFilterPipe(): boolean {
+            return this._withFilters && this._is('|') && this._tokens[this._index + 1].type === TOKEN_NAME;
+        }
+
+        private _eat(value: string): boolean {
+            if (this._is(value)) {
+                this._index += 1;
+                return true;
+            }
+            return false;
+        }
+
+        private _expect(value: string): IToken {
+            let token = this._peek();
+
+            if (!this._is(value)) {
+                throwError(this.expression, token.start, `缺少"${value}"`);
+            }
+
+            return this._next();
+        }
+
+        private _unexpected(token: IToken): void {
+            if (token.type === TOKEN_EOF) {
+                throwError(this.expression, token.start, `表达式意外结束`);
+            }
+            throwError(this.expression, token.start, `意外的标记"${this.expression.slice(token.start, token.end)}"`);
+        }
+
+        private _node(type: string, start: number, props: any): any {
+            let node: INode = { type, start, end: this._tokens[this._index - 1].end };
+            return util.extend(node, props);
+        }
+
+        private _parseFilters(input: INode): IFilterExpression {
+            let filters: IFilterNode[] = [];
+
+            while (this._isFilterPipe()) {
+                this._next();
+                let token = this._next();
+
+                let args: INode[] = [];
+
+                if (this._eat(':')) {
+                    do {
+                        args.push(this._parseAssignment());
+                    } while (this._eat(','));
+                }
+
+                filters.push(this._node('Filter', token.start, { name: token.value, arguments: args }));
+            }
+
+            return this._node('FilterExpression', input.start, { input, filters });
+        }
+
+        private _parseSequence(): INode {
+            let start = this._peek().start;
+            let expressions = [this._parseAssignment()];
+
+            while (this._eat(',')) {
+                expressions.push(this._parseAssignment());
+            }
+
+            if (expressions.length === 1) {
+                return expressions[0];
+            }
+
+            return this._node('SequenceExpression', start, { expressions });
+        }
+
+        private _parseAssignment(): INode {
+            let start = this._peek().start;
+            let left = this._parseConditional();
+            let token = this._peek();
+
+            if (token.type === TOKEN_PUNCTUATOR && assignmentOperators.indexOf(token.value) > -1) {
+                this._assertAssignable(left);
+                this._next();
+
+                let right = this._parseAssignment();
+                return this._node('AssignmentExpression', start, { operator: token.value, left, right });
+            }
+
+            return left;
+        }
+
+        private _parseConditional(): INode {
+            let start = this._peek().start;
+            let test = this._parseBinary(1);
+
+            if (!this._eat('?')) {
+                return test;
+            }
+
+            let consequent = this._parseAssignment();
+            this._expect(':');
+            let alternate = this._parseAssignment();
+
+            return this._node('ConditionalExpression', start, { test, consequent, alternate });
+        }
+
+        private _parseBinary(minPrecedence: number): INode {
+            let start = this._peek().start;
+            let left = this._parseUnary();
+
+            while (true) {
+                let token = this._peek();
+                let precedence = (token.type === TOKEN_PUNCTUATOR || token.type === TOKEN_NAME) && binaryPrecedence.hasOwnProperty(token.value) ? binaryPrecedence[token.value] : 0;
+
+                if (!precedence || precedence < minPrecedence || this._isFilterPipe()) {
+                    return left;
+                }
+
+                this._next();
+
+                let operator = token.value;
+                let right = this._parseBinary(precedence + 1);
+                let type = operator === '||' || operator === '&&' ? 'LogicalExpression' : 'BinaryExpression';
+
+                left = this._node(type, start, { operator, left, right });
+            }
+        }
+
+        private _parseUnary(): INode {
+            let token = this._peek();
+            let start = token.start;
+
+            if ((token.type === TOKEN_PUNCTUATOR || token.type === TOKEN_NAME) && unaryOperators.indexOf(token.value) > -1) {
+                this._next();
+                let argument = this._parseUnary();
+                return this._node('UnaryExpression', start, { operator: token.value, argument });
+            }
+
+            if (this._is('++') || this._is('--')) {
+                this._next();
+                let argument = this._parseUnary();
+                this._assertAssignable(argument);
+                return this._node('UpdateExpression', start, { operator: token.value, prefix: true, argument });
+            }
+
+            let node = this._parsePostfix();
+
+            if (this._is('++') || this._is('--')) {
+                this._assertAssignable(node);
+                let operator = this._next().value;
+                return this._node('UpdateExpression', start, { operator, prefix: false, argument: node });
+            }
+
+            return node;
+        }
+
+        private _parsePostfix(): INode {
+            let start = this._peek().start;
+            let node = this._parsePrimary();
+
+            while (true) {
+                if (this._eat('.')) {
+                    let token = this._next();
+                    if (token.type !== TOKEN_NAME) {
+                        this._unexpected(token);
+                    }
+                    let property = this._node('Literal', token.start, { value: token.value });
+                    node = this._node('MemberExpression', start, { object: node, property, computed: false });
+                }
+                else if (this._eat('[')) {
+                    let property = this._parseSequence();
+                    this._expect(']');
+                    node = this._node('MemberExpression', start, { object: node, property, computed: true });
+                }
+                else if (this._eat('(')) {
+                    let args = this._parseList(')');
+                    node = this._node('CallExpression', start, { callee: node, arguments: args });
+                }
+                else {
+                    return node;
+                }
+            }
+        }
+
+        private _parseList(closing: string): INode[] {
+            let list: INode[] = [];
+
+            if (!this._eat(closing)) {
+                do {
+                    list.push(this._parseAssignment());
+                } while (this._eat(','));
+
+                this._expect(closing);
+            }
+
+            return list;
+        }
+
+        private _parsePrimary(): INode {
+            let token = this._next();
+            let start = token.start;
+
+            if (token.type === TOKEN_NUMBER || token.type === TOKEN_STRING) {
+                return this._node('Literal', start, { value: token.value });
+            }
+
+            if (token.type === TOKEN_NAME) {
+                let name: string = token.value;
+
+                if (literals.hasOwnProperty(name)) {
+                    return this._node('Literal', start, { value: literals[name] });
+                }
+                if (name === 'this') {
+                    return this._node('ThisExpression', start, {});
+                }
+                if (reservedWords.indexOf(name) > -1 || binaryPrecedence.hasOwnProperty(name) || unaryOperators.indexOf(name) > -1) {
+                    this._unexpected(token);
+                }
+                return this._node('Identifier', start, { name });
+            }
+
+            if (token.type === TOKEN_PUNCTUATOR) {
+                switch (token.value) {
+                    case '(':
+                        let node = this._parseSequence();
+                        this._expect(')');
+                        return node;
+                    case '[':
+                        return this._node('ArrayExpression', start, { elements: this._parseList(']') });
+                    case '{':
+                        return this._parseObject(start);
+                }
+            }
+
+            this._unexpected(token);
+        }
+
+        private _parseObject(start: number): INode {
+            let properties: IProperty[] = [];
+
+            if (!this._eat('}')) {
+                do {
+                    let token = this._next();
+
+                    if (token.type !== TOKEN_NAME && token.type !== TOKEN_STRING && token.type !== TOKEN_NUMBER) {
+                        this._unexpected(token);
+                    }
+
+                    this._expect(':');
+                    properties.push({ key: String(token.value), value: this._parseAssignment() });
+                } while (this._eat(','));
+
+                this._expect('}');
+            }
+
+            return this._node('ObjectExpression', start, { properties });
+        }
+
+        private _assertAssignable(node: INode): void {
+            if (node.type !== 'Identifier' && node.type !== 'MemberExpression') {
+                throwError(this.expression, node.start, `不能对该表达式赋值`);
+            }
+        }
+    }
+
+
+    const astCache = new Cache<INode>(200);
+    const astWithoutFilterCache = new Cache<INode>(200);
+
+    /**
+     * 把表达式解析成语法树,返回的语法树会被缓存复用,不要修改
+     * @param  expression  表达式
+     * @param  skipFilter  不解析filter,此时"|"只作为按位或操作符
+     */
+    export function parseAST(expression: string, skipFilter?: boolean): INode {
+        let cache = skipFilter ? astWithoutFilterCache : astCache;
+        let ast = cache.get(expression);
+
+        if (!ast) {
+            ast = new ASTParser(expression, !skipFilter).parse();
+            cache.set(expression, ast);
+        }
+
+        return ast;
+    }
+
+    /**
+     * 遍历语法树的所有节点
+     * @param  node     语法树节点
+     * @param  visitor  访问每个节点的回调,返回false时不再遍历该节点的子节点
+     */
+    export function traverse(node: INode, visitor: (node: INode, parent: INode) => any, parent?: INode): void {
+        if (visitor(node, parent) === false) {
+            return;
+        }
+
+        let n: any = node;
+        let children: INode[];
+
+        switch (node.type) {
+            case 'ArrayExpression':
+                children = n.elements;
+                break;
+            case 'ObjectExpression':
+                children = n.properties.map((prop: IProperty) => prop.value);
+                break;
+            case 'MemberExpression':
+                children = [n.object, n.property];
+                break;
+            case 'CallExpression':
+                children = [n.callee].concat(n.arguments);
+                break;
+            case 'UnaryExpression':
+            case 'UpdateExpression':
+                children = [n.argument];
+                break;
+            case 'BinaryExpression':
+            case 'LogicalExpression':
+            case 'AssignmentExpression':
+                children = [n.left, n.right];
+                break;
+            case 'ConditionalExpression':
+                children = [n.test, n.consequent, n.alternate];
+                break;
+            case 'SequenceExpression':
+                children = n.expressions;
+                break;
+            case 'Filter':
+                children = n.arguments;
+                break;
+            case 'FilterExpression':
+                children = [n.input].concat(n.filters);
+                break;
+            default:
+                return;
+        }
+
+        children.forEach(child => traverse(child, visitor, node));
+    }
+
+    /**
+     * 获取语法树中访问的所有viewModel属性名,不包括直接调用的方法名和$event,$el,$global
+     * @param  node  语法树节点
+     */
+    export function getIdentifiers(node: INode): string[] {
+        let identifiers: string[] = [];
+
+        traverse(node, (child, parent) => {
+            if (child.type !== 'Identifier') {
+                return;
+            }
+
+            let name = (<IIdentifier>child).name;
+
+            if (specialNames.indexOf(name) > -1 || (parent && parent.type === 'CallExpression' && (<ICallExpression>parent).callee === child)) {
+                return;
+            }
+
+            util.addArrayItem(identifiers, name);
+        });
+
+        return identifiers;
+    }
+
+    const reInterpolate = /\{\{((.|\n)*?)\}\}/g;
+
+    /**
+     * 校验表达式的语法,不需要DOM环境,出错时返回出错的字符位置
+     * @param  expression     表达式
+     * @param  isInterpolate  是否是插值表达式,未提供时根据是否包含插值语法判断
+     */
+    export function validate(expression: string, isInterpolate?: boolean): IValidationResult {
+        if (isInterpolate == null) {
+            isInterpolate = hasInterpolation(expression);
+        }
+
+        try {
+            if (isInterpolate) {
+                let matches: RegExpExecArray;
+
+                reInterpolate.lastIndex = 0;
+
+                while (matches = reInterpolate.exec(expression)) {
+                    validatePart(matches[1], matches.index + 2);
+                }
+            }
+            else {
+                validatePart(expression, 0);
+            }
+        }
+        catch (err) {
+            if (err.index == null) {
+                throw err;
+            }
+            return { valid: false, expression, index: err.index, message: err.reason };
+        }
+
+        return { valid: true, expression };
+    }
+
+    function validatePart(expression: string, offset: number): void {
+        if (!/\S/.test(expression)) {
+            throwError(expression, offset, `表达式不能为空`);
+        }
+
+        try {
+            parseAST(expression);
+        }
+        catch (err) {
+            if (err.index != null) {
+                err.index += offset;
+            }
+            throw err;
+        }
+    }
+}
@@ -0,0 +1,247 @@
+/// <reference path="./ast.ts" />
+
+/**
+ * 表达式解释器,遍历表达式的语法树求值,不依赖new Function,
+ * 用于页面的Content-Security-Policy禁止unsafe-eval时的表达式求值
+ */
+namespace drunk.Parser {
+
+    interface IScope {
+        context: any;
+        event: any;
+        element: any;
+        global: any;
+    }
+
+    const specialNames: { [name: string]: string } = {
+        '$event': 'event',
+        '$el': 'element',
+        '$global': 'global'
+    };
+
+    /**
+     * 遍历语法树求值
+     */
+    function evaluate(node: INode, scope: IScope): any {
+        let n: any = node;
+
+        switch (node.type) {
+            case 'Literal':
+                return (<ILiteral>node).value;
+
+            case 'ThisExpression':
+                return scope.context;
+
+            case 'Identifier':
+                let name = (<IIdentifier>node).name;
+                if (specialNames.hasOwnProperty(name)) {
+                    return scope[specialNames[name]];
+                }
+                return scope.context[name];
+
+            case 'ArrayExpression':
+                return (<IArrayExpression>node).elements.map(item => evaluate(item, scope));
+
+            case 'ObjectExpression':
+                let result = {};
+                (<IObjectExpression>node).properties.forEach(prop => {
+                    result[prop.key] = evaluate(prop.value, scope);
+                });
+                return result;
+
+            case 'MemberExpression':
+                return evaluate(n.object, scope)[evaluateProperty(n, scope)];
+
+            case 'CallExpression':
+                return evaluateCall(n, scope);
+
+            case 'UnaryExpression':
+                return evaluateUnary(n, scope);
+
+            case 'UpdateExpression':
+                let oldValue = Number(evaluate(n.argument, scope));
+                let newValue = n.operator === '++' ? oldValue + 1 : oldValue - 1;
+                assign(n.argument, newValue, scope);
+                return n.prefix ? newValue : oldValue;
+
+            case 'BinaryExpression':
+                return binaryOperate(n.operator, evaluate(n.left, scope), evaluate(n.right, scope));
+
+            case 'LogicalExpression':
+                let left = evaluate(n.left, scope);
+                if (n.operator === '&&') {
+                    return left ? evaluate(n.right, scope) : left;
+                }
+                return left ? left : evaluate(n.right, scope);
+
+            case 'ConditionalExpression':
+                return evaluate(n.test, scope) ? evaluate(n.consequent, scope) : evaluate(n.alternate, scope);
+
+            case 'AssignmentExpression':
+                let value = evaluate(n.right, scope);
+                if (n.operator !== '=') {
+                    value = binaryOperate(n.operator.slice(0, -1), evaluate(n.left, scope), value);
+                }
+                return assign(n.left, value, scope);
+
+            case 'SequenceExpression':
+                let last: any;
+                (<ISequenceExpression>node).expressions.forEach(item => {
+                    last = evaluate(item, scope);
+                });
+                return last;
+        }
+
+        throw new Error(`不支持的语法节点: ${node.type}`);
+    }
+
+    function evaluateProperty(node: IMemberExpression, scope: IScope): any {
+        return node.computed ? evaluate(node.property, scope) : (<ILiteral>node.property).value;
+    }
+
+    /**
+     * 方法调用,直接调用的方法名会通过viewModel的__getHandler方法查找
+     */
+    function evaluateCall(node: ICallExpression, scope: IScope): any {
+        let callee = node.callee;
+        let context: any;
+        let method: any;
+
+        if (callee.type === 'Identifier' && !specialNames.hasOwnProperty((<IIdentifier>callee).name)) {
+            if (!scope.context.__getHandler) {
+                return;
+            }
+            method = scope.context.__getHandler((<IIdentifier>callee).name);
+        }
+        else if (callee.type === 'MemberExpression') {
+            context = evaluate((<IMemberExpression>callee).object, scope);
+            method = context[evaluateProperty(<IMemberExpression>callee, scope)];
+        }
+        else {
+            method = evaluate(callee, scope);
+        }
+
+        if (typeof method !== 'function') {
+            throw new TypeError(`第${callee.start}个字符处的表达式不是一个方法`);
+        }
+
+        return method.apply(context, node.arguments.map(item => evaluate(item, scope)));
+    }
+
+    function evaluateUnary(node: IUnaryExpression, scope: IScope): any {
+        let argument = node.argument;
+
+        switch (node.operator) {
+            case '!':
+                return !evaluate(argument, scope);
+            case '~':
+                return ~evaluate(argument, scope);
+            case '-':
+                return -evaluate(argument, scope);
+            case '+':
+                return +evaluate(argument, scope);
+            case 'typeof':
+                return typeof evaluate(argument, scope);
+            case 'void':
+                evaluate(argument, scope);
+                return undefined;
+            case 'delete':
+                if (argument.type !== 'MemberExpression') {
+                    return true;
+                }
+                return delete evaluate((<IMemberExpression>argument).object, scope)[evaluateProperty(<IMemberExpression>argument, scope)];
+        }
+    }
+
+    function binaryOperate(operator: string, left: any, right: any): any {
+        switch (operator) {
+            case '+': return left + right;
+            case '-': return left - right;
+            case '*': return left * right;
+            case '/': return left / right;
+            case '%': return left % right;
+            case '|': return left | right;
+            case '^': return left ^ right;
+            case '&': return left & right;
+            case '<<': return left << right;
+            case '>>': return left >> right;
+            case '>>>': return left >>> right;
+            case '==': return left == right;
+            case '!=': return left != right;
+            case '===': return left === right;
+            case '!==': return left !== right;
+            case '<': return left < right;
+            case '>': return left > right;
+            case '<=': return left <= right;
+            case '>=': return left >= right;
+            case 'in': return left in right;
+            case 'instanceof': return left instanceof right;
+        }
+    }
+
+    /**
+     * 对变量或对象属性赋值
+     */
+    function assign(node: INode, value: any, scope: IScope): any {
+        if (node.type === 'Identifier') {
+            scope.context[(<IIdentifier>node).name] = value;
+        }
+        else {
+            evaluate((<IMemberExpression>node).object, scope)[evaluateProperty(<IMemberExpression>node, scope)] = value;
+        }
+        return value;
+    }
+
+    /**
+     * 表达式解释器,同一个语法树可重复用于求值和赋值
+     */
+    export class Interpreter {
+
+        /**
+         * 表达式中访问的所有变量名,方法调用的方法名不包含在内
+         */
+        identifiers: string[];
+
+        /**
+         * @param  ast  表达式的语法树,不能包含filter
+         */
+        constructor(public ast: INode) {
+            this.identifiers = getIdentifiers(ast);
+        }
+
+        /**
+         * 在指定的上下文中对表达式求值
+         * @param  context  上下文对象,一般为viewModel实例
+         * @param  event    事件对象,对应表达式中的$event
+         * @param  element  元素,对应表达式中的$el
+         * @param  global   全局对象,对应表达式中的$global
+         */
+        evaluate(context: any, event?: any, element?: any, global?: any): any {
+            this._proxyIdentifiers(context);
+            return evaluate(this.ast, { context, event, element, global });
+        }
+
+        /**
+         * 把值赋给表达式指向的变量或属性
+         * @param  context  上下文对象
+         * @param  value    要设置的值
+         */
+        assign(context: any, value: any): any {
+            if (this.ast.type !== 'Identifier' && this.ast.type !== 'MemberExpression') {
+                throw new Error(`该表达式不能作为赋值的目标`);
+            }
+
+            this._proxyIdentifiers(context);
+            return assign(this.ast, value, { context, event: null, element: null, global: null });
+        }
+
+        /**
+         * 和new Function生成的函数保持一致,求值前先代理所有用到的变量
+         */
+        private _proxyIdentifiers(context: any): void {
+            if (context.$proxy) {
+                this.identifiers.forEach(name => context.$proxy(name));
+            }
+        }
+    }
+}
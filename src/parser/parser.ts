@@ -1,12 +1,17 @@
 /// <reference path="../filter/filter.ts" />
 /// <reference path="../cache/cache.ts" />
+/// <reference path="../config/config.ts" />
+/// <reference path="./ast.ts" />
+/// <reference path="./interpreter.ts" />
 
 /**
- * 简单的解析器,只是做了字符串替换,然后使用new Function生成函数
+ * 解析器,先把表达式解析成语法树,再根据语法树生成代码并用new Function创建函数,
+ * 开启config.csp时改为使用Interpreter解释执行
  */
 namespace drunk.Parser {
     
     import Cache = drunk.Cache;
+    import config = drunk.config;
     
     export interface IGetter {
         (event?: Event, element?: HTMLElement, global?: any): any;
@@ -17,11 +22,7 @@ namespace drunk.Parser {
     
     export interface ISetter {
         (viewModel: ViewModel, value: any): any;
-    }
-    
-    interface IFilterCache {
-        input: string;
-        filters: Array<Filter.IFilterDef>;
+        filters?: Array<Filter.IFilterDef>;
     }
     
     const globalName = "$global";
@@ -32,70 +33,31 @@ namespace drunk.Parser {
     const proxyOperation = contextName + ".$proxy";
     const getHandlerOperation = contextName + ".__getHandler";
     
-    // 保留关键字
-    const reservedKeywords: Array<string> = [
-        'break', 'case', 'catch', 'continue', 'debugger', 'default', 'delete', 'do',
-        'else', 'finally', 'for', 'function', 'if', 'in', 'instanceof', 'new', 'return',
-        'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void', 'while',
-        'class', 'null', 'undefined', 'true', 'false', 'with', eventName, elementName, globalName,
-        'let', 'abstract', 'import', 'yield', 'arguments'
-    ];
+    const specialNames: Array<string> = [eventName, elementName, globalName];
     
     const tokenCache = new Cache<any[]>(200);
-    const getterCache = new Cache<IGetter>(200);
-    const setterCache = new Cache<ISetter>(200);
-    const filterCache = new Cache<IFilterCache>(200);
-    const expressionCache = new Cache<IGetter>(200);
-    const identifierCache = new Cache<any>(200);
-    const interpolateGetterCache = new Cache<IGetter>(200);
     
-    const reIdentifier = /("|').*?\1|[a-zA-Z$_][a-z0-9A-Z$_]*/g;
-    const reFilter = /("|').*?\1|\|\||\|\s*([a-zA-Z$_][a-z0-9A-Z$_]*)(:[^|]*)?/g;
-    const reInterpolate = /\{\{((.|\n)+?)\}\}/g;
-    const reBrackets = /^\([^)]*\)/;
-    const reObjectKey = /[{,]\s*$/;
-    const reColon = /^\s*:/;
-    const reAnychar = /\S+/;
-    const reThisProperties = /\bthis\.([_$[A-Za-z0-9]+)|\bthis\[\s*("|')(.+?)\2\s*\]/g;
-
     /**
-     *  解析filter定义
+     * 普通模式和CSP模式生成的函数不同,按模式分别缓存,切换config.csp后不会取到另一种模式生成的函数
      */
-    function parseFilterDef(str: string, skipSetter: boolean = false) {
-        if (!filterCache.get(str)) {
-            let def: Array<Filter.IFilterDef> = [];
-            let idx: number;
-            
-            str.replace(reFilter, ($0, quote, name, args, i) => {
-                if (!name) {
-                    return $0;
-                }
-                
-                if (idx == null) {
-                    // 记录filter开始的位置， 因为filter只能是连续的出现一直到表达式结尾
-                    idx = i;
-                }
-                
-                let param: IGetter;
-                if (args) {
-                    param = parseGetter('[' + args.slice(1) + ']', false, true);
-                }
-                def.push({ name: name,  param: param });
-            });
-            
-            if (!def.length) {
-                return;
-            }
-            
-            filterCache.set(str, {
-                input: str.slice(0, idx).trim(),
-                filters: def
-            });
-        }
-        
-        return filterCache.get(str);
+    const functionCaches = [false, true].map(() => {
+        return {
+            getter: new Cache<IGetter>(200),
+            setter: new Cache<ISetter>(200),
+            expression: new Cache<IGetter>(200),
+            interpolate: new Cache<IGetter>(200)
+        };
+    });
+    
+    function getCaches() {
+        return functionCaches[config.csp ? 1 : 0];
     }
     
+    const reInterpolate = /\{\{((.|\n)+?)\}\}/g;
+    const reAnychar = /\S+/;
+    const reThisProperties = /\bthis\.([_$[A-Za-z0-9]+)|\bthis\[\s*("|')(.+?)\2\s*\]/g;
+    const reLineTerminator = /[\u2028\u2029]/g;
+    
     /**
      *  断言非空字符串
      */
@@ -106,87 +68,91 @@ namespace drunk.Parser {
     }
     
     /**
-     *  是否是对象的key
-     */
-    function isObjectKey(str: string): boolean {
-        return str.match(reObjectKey) != null;
-    }
-
-    /**
-     *  前一个字符是否是冒号
+     *  断言语法树可以作为赋值的目标
      */
-    function isColon(str: string): boolean {
-        return str.match(reColon) != null;
+    function assertAssignable(node: INode, expression: string): void {
+        if (node.type !== 'Identifier' && node.type !== 'MemberExpression') {
+            throw new Error(`"${expression}"不能作为赋值的目标`);
+        }
     }
 
     /**
-     *  是否是一个方法调用
+     *  根据语法树生成代码,变量会转成上下文的属性访问,直接调用的方法会通过__getHandler查找
      */
-    function isCallFunction(str: string): boolean {
-        return str.match(reBrackets) != null;
-    }
-    
-    /**
-     *  解析所有的标记并对表达式进行格式化
-     */
-    function parseIdentifier(str: string) {
-        let cache = identifierCache.get(str);
+    function generate(node: INode): string {
+        let n: any = node;
         
-        if (!cache) {
-            let index = 0;
-            let proxies = [];
-            let identifiers = [];
-
-            let formated = str.replace(reIdentifier, function (x, p, i) {
-                if (p === '"' || p === "'" || str[i - 1] === '.') {
-                    // 如果是字符串: "aaa"
-                    // 或对象的属性: .aaa
-                    index = i + x.length;
-                    return x;
-                }
-
-                let prevStr = str.slice(index, i);     // 前一个字符
-                let nextStr = str.slice(i + x.length); // 后一个字符
-
-                index = i + x.length;
-
-                if (isColon(nextStr) && isObjectKey(prevStr)) {
-                    // 如果前一个字符是冒号，再判断是否是对象的Key
-                    return x;
-                }
-
-                if (reservedKeywords.indexOf(x) > -1) {
-                    // 如果是保留关键字直接返回原字符串
-                    return x;
+        switch (node.type) {
+            case 'Literal':
+                let value = (<ILiteral>node).value;
+                if (typeof value === 'string') {
+                    return JSON.stringify(value).replace(reLineTerminator, c => '\\u' + c.charCodeAt(0).toString(16));
                 }
+                return String(value);
                 
-                if (isCallFunction(nextStr)) {
-                    // 如果后面有连续的字符是一对括号则为方法调用
-                    // method(a) 会转成 __context.getHandler("method")(a)
-                    return getHandlerOperation + ' && ' + getHandlerOperation + '("' + x + '")';
-                }
-
-                if (identifiers.indexOf(x) < 0) {
-                    // 标记未添加到列表中是
-                    proxies.push('  ' + proxyOperation + '("' + x + '")');
-                    identifiers.push(x);
+            case 'ThisExpression':
+                return contextName;
+                
+            case 'Identifier':
+                let name = (<IIdentifier>node).name;
+                // a 转成 this.a
+                return specialNames.indexOf(name) > -1 ? name : contextName + '.' + name;
+                
+            case 'ArrayExpression':
+                return '[' + n.elements.map(generate).join(', ') + ']';
+                
+            case 'ObjectExpression':
+                return '{' + n.properties.map((prop: IProperty) => JSON.stringify(prop.key) + ': ' + generate(prop.value)).join(', ') + '}';
+                
+            case 'MemberExpression':
+                return generateMember(n);
+                
+            case 'CallExpression':
+                let args = '(' + n.arguments.map(generate).join(', ') + ')';
+                if (n.callee.type === 'Identifier' && specialNames.indexOf(n.callee.name) < 0) {
+                    // method(a) 转成 this.__getHandler && this.__getHandler("method")(a)
+                    return '(' + getHandlerOperation + ' && ' + getHandlerOperation + '(' + JSON.stringify(n.callee.name) + ')' + args + ')';
                 }
-
-                // 否则为属性访问， 直接加上下文
-                // a 转成  __context.a
-                return contextName + '.' + x;
-            });
-            
-            cache = {
-                proxies: identifiers.length ? ('if (' + proxyOperation + ') {\n' + proxies.join(';\n') + ';\n}\n') : '',
-                formated,
-                identifiers
-            };
-            
-            identifierCache.set(str, cache);
+                return (n.callee.type === 'MemberExpression' ? generateMember(n.callee) : '(' + generate(n.callee) + ')') + args;
+                
+            case 'UnaryExpression':
+                return '(' + n.operator + ' ' + generate(n.argument) + ')';
+                
+            case 'UpdateExpression':
+                return n.prefix ? '(' + n.operator + generate(n.argument) + ')' : '(' + generate(n.argument) + n.operator + ')';
+                
+            case 'BinaryExpression':
+            case 'LogicalExpression':
+            case 'AssignmentExpression':
+                return '(' + generate(n.left) + ' ' + n.operator + ' ' + generate(n.right) + ')';
+                
+            case 'ConditionalExpression':
+                return '(' + generate(n.test) + ' ? ' + generate(n.consequent) + ' : ' + generate(n.alternate) + ')';
+                
+            case 'SequenceExpression':
+                return '(' + n.expressions.map(generate).join(', ') + ')';
         }
+        
+        throw new Error(`不支持的语法节点: ${node.type}`);
+    }
+    
+    function generateMember(node: IMemberExpression): string {
+        let object = '(' + generate(node.object) + ')';
+        if (node.computed) {
+            return object + '[' + generate(node.property) + ']';
+        }
+        return object + '.' + (<ILiteral>node.property).value;
+    }
 
-        return cache;
+    /**
+     *  生成代理所有变量的代码
+     */
+    function generateProxies(identifiers: string[]): string {
+        if (!identifiers.length) {
+            return '';
+        }
+        let proxies = identifiers.map(name => '  ' + proxyOperation + '(' + JSON.stringify(name) + ')');
+        return 'if (' + proxyOperation + ') {\n' + proxies.join(';\n') + ';\n}\n';
     }
     
     /**
@@ -202,6 +168,56 @@ namespace drunk.Parser {
         }
     }
     
+    /**
+     *  根据语法树创建求值函数
+     *  @param  expression  表达式,用于错误信息
+     *  @param  node        不包含filter的语法树
+     *  @param  catchError  是否忽略求值时抛出的错误
+     */
+    function createGetter(expression: string, node: INode, catchError: boolean): IGetter {
+        let getter: IGetter;
+        let identifiers = getIdentifiers(node);
+        
+        if (config.csp) {
+            let interpreter = new Interpreter(node);
+            getter = function (event?: Event, element?: HTMLElement, global?: any) {
+                if (!catchError) {
+                    return interpreter.evaluate(this, event, element, global);
+                }
+                try {
+                    return interpreter.evaluate(this, event, element, global);
+                } catch (e) { }
+            };
+        }
+        else {
+            let code = "return (" + generate(node) + ");";
+            let fnBody = generateProxies(identifiers) + (catchError ? "try{" + code + "}catch(e){}" : code);
+            getter = createFunction(expression, eventName, elementName, globalName, fnBody);
+        }
+        
+        getter.dynamic = !!identifiers.length;
+        return getter;
+    }
+    
+    /**
+     *  根据语法树中的filter节点生成filter定义
+     */
+    function createFilterDefs(expression: string, filters: IFilterNode[]): Array<Filter.IFilterDef> {
+        return filters.map(filter => {
+            let param: IGetter;
+            if (filter.arguments.length) {
+                let argsNode: IArrayExpression = {
+                    type: 'ArrayExpression',
+                    start: filter.arguments[0].start,
+                    end: filter.end,
+                    elements: filter.arguments
+                };
+                param = createGetter(expression, argsNode, true);
+            }
+            return { name: filter.name, param };
+        });
+    }
+    
     /**
      * 解析表达式
      * @param  expression  表达式
@@ -209,14 +225,11 @@ namespace drunk.Parser {
     export function parse(expression: string): IGetter {
         assertNotEmptyString(expression, `[Parser.parse]解析表达式失败`);
         
-        let fn = expressionCache.get(expression);
+        let fn = getCaches().expression.get(expression);
         
         if (!fn) {
-            let detail = parseIdentifier(expression);
-            let fnBody = detail.proxies + "return (" + detail.formated + ");";
-            
-            fn = createFunction(expression, eventName, elementName, globalName, fnBody);
-            expressionCache.set(expression, fn);
+            fn = createGetter(expression, parseAST(expression, true), false);
+            getCaches().expression.set(expression, fn);
         }
         
         return fn;
@@ -235,24 +248,21 @@ namespace drunk.Parser {
             return parseInterpolate(expression);
         }
         
-        let getter = getterCache.get(expression);
+        let getter = getCaches().getter.get(expression);
         
         if (!getter) {
-            let input: string = expression;
-            let filter: IFilterCache;
+            let node = parseAST(expression, skipFilter);
+            let filters: IFilterNode[];
     
-            if (!skipFilter && (filter = parseFilterDef(expression))) {
-                input = filter.input;
+            if (node.type === 'FilterExpression') {
+                filters = (<IFilterExpression>node).filters;
+                node = (<IFilterExpression>node).input;
             }
             
-            let detail = parseIdentifier(input);
-            let fnBody = detail.proxies + "try{return (" + detail.formated + ");}catch(e){}";
-    
-            getter = createFunction(expression, eventName, elementName, globalName, fnBody);
-            getter.dynamic = !!detail.identifiers.length;
-            getter.filters = filter ? filter.filters : null;
+            getter = createGetter(expression, node, true);
+            getter.filters = filters ? createFilterDefs(expression, filters) : null;
             
-            getterCache.set(expression, getter);
+            getCaches().getter.set(expression, getter);
         }
 
         return getter;
@@ -265,14 +275,32 @@ namespace drunk.Parser {
     export function parseSetter(expression: string): ISetter {
         assertNotEmptyString(expression, `[Parser.parseSetter]创建setter失败`);
         
-        let setter = setterCache.get(expression);
+        let setter = getCaches().setter.get(expression);
 
         if (!setter) {
-            let detail = parseIdentifier(expression);
-            let fnBody = detail.proxies + "return (" + detail.formated + " = " + valueName + ");";
+            let node = parseAST(expression);
+            let filters: IFilterNode[];
             
-            setter = createFunction(expression, valueName, fnBody);
-            setterCache.set(expression, setter);
+            if (node.type === 'FilterExpression') {
+                // filter不参与赋值,赋值前由调用方使用filter的write方法处理
+                filters = (<IFilterExpression>node).filters;
+                node = (<IFilterExpression>node).input;
+            }
+            
+            assertAssignable(node, expression);
+            
+            if (config.csp) {
+                let interpreter = new Interpreter(node);
+                setter = function (value: any) {
+                    return interpreter.assign(this, value);
+                };
+            }
+            else {
+                let fnBody = generateProxies(getIdentifiers(node)) + "return (" + generate(node) + " = " + valueName + ");";
+                setter = createFunction(expression, valueName, fnBody);
+            }
+            setter.filters = filters ? createFilterDefs(expression, filters) : null;
+            getCaches().setter.set(expression, setter);
         }
         
         return setter;
@@ -331,7 +359,7 @@ namespace drunk.Parser {
     
     // 根据token生成getter函数
     function tokensToGetter(tokens: any[], expression): IGetter {
-        let getter = interpolateGetterCache.get(expression);
+        let getter = getCaches().interpolate.get(expression);
 
         if (!getter) {
             let dynamic = false;
@@ -369,7 +397,7 @@ namespace drunk.Parser {
             getter.filters = filters;
             getter.isInterpolate = true;
             
-            interpolateGetterCache.set(expression, getter);
+            getCaches().interpolate.set(expression, getter);
         }
         return getter;
     }
@@ -115,6 +115,8 @@ namespace drunk.Template {
             return;
         }
 
+        assertValidExpression(node, 'bind', content, true);
+
         var tokens: any[] = Parser.parseInterpolate(content, true);
         var fragment = document.createDocumentFragment();
         var bindings: Array<BindingNode | string> = [];
@@ -140,6 +142,7 @@ namespace drunk.Template {
         for (let i = 0, name; name = terminalBindings[i]; i++) {
             let attrValue = element.getAttribute(config.prefix + name);
             if (attrValue != null) {
+                assertValidExpression(element, name, attrValue);
                 return {
                     bindings: [{
                         name: name,
@@ -207,6 +210,7 @@ namespace drunk.Template {
             }
 
             if (bindingNode) {
+                assertValidExpression(element, bindingNode.name, expression, bindingNode.isInterpolate);
                 if (!bindingNodes) {
                     bindingNodes = [];
                 }
@@ -257,6 +261,26 @@ namespace drunk.Template {
         dom.replace(fragment, node);
     }
 
+    /**
+     * 校验绑定的表达式语法,出错时打印表达式,出错的字符位置和所属的元素
+     * 只校验会被解析成getter的表达式,有自定义语法或没有update方法的绑定跳过
+     */
+    function assertValidExpression(node: Node, name: string, expression: string, isInterpolate?: boolean) {
+        var Ctor = Binding.getByName(name);
+        if (!Ctor || Ctor.hasCustomSyntax || typeof Ctor.prototype.update !== 'function') {
+            return;
+        }
+
+        var result = Parser.validate(expression, !!isInterpolate);
+        if (result.valid) {
+            return;
+        }
+
+        var message = `${config.prefix}${name}="${expression}": 第${result.index}个字符处存在语法错误, ${result.message}`;
+        console.error(message + '\n', node);
+        throw new SyntaxError(message);
+    }
+
     function isNeedCompileChildNodes(node: HTMLElement) {
         return node.tagName && node.tagName.toLowerCase() !== 'script' && node.childNodes.length > 0;
     }
@@ -140,14 +140,47 @@ namespace drunk.dom {
         parent.removeChild(oldNode);
     }
 
+    /**
+     * 事件监听的选项
+     */
+    export interface IListenerOptions {
+        capture?: boolean;
+        passive?: boolean;
+    }
+
+    /**
+     * 浏览器是否支持addEventListener的options参数
+     */
+    const supportsListenerOptions: boolean = (() => {
+        let supported = false;
+
+        try {
+            let options = Object.defineProperty({}, 'passive', {
+                get: () => supported = true
+            });
+            window.addEventListener('test', null, options);
+            window.removeEventListener('test', null, options);
+        } catch (e) { }
+
+        return supported;
+    })();
+
+    function getListenerOptions(options: IListenerOptions): any {
+        if (!options) {
+            return false;
+        }
+        return supportsListenerOptions ? options : !!options.capture;
+    }
+
     /**
      * 为节点注册事件监听
      * @param  element  元素
      * @param  type     事件名
      * @param  listener 事件处理函数
+     * @param  options  capture和passive选项,不支持options参数的浏览器只使用capture
      */
-    export function on(element: HTMLElement, type: string, listener: (ev: Event) => void): void {
-        element.addEventListener(type, listener, false);
+    export function on(element: HTMLElement, type: string, listener: (ev: Event) => void, options?: IListenerOptions): void {
+        element.addEventListener(type, listener, getListenerOptions(options));
     }
 
     /**
@@ -155,9 +188,10 @@ namespace drunk.dom {
      * @param  element  元素
      * @param  type     事件名
      * @param  listener 事件处理函数
+     * @param  options  注册时使用的选项
      */
-    export function off(element: HTMLElement, type: string, listener: (ev: Event) => void): void {
-        element.removeEventListener(type, listener, false);
+    export function off(element: HTMLElement, type: string, listener: (ev: Event) => void, options?: IListenerOptions): void {
+        element.removeEventListener(type, listener, getListenerOptions(options));
     }
 
     /**
@@ -0,0 +1,107 @@
+/// <reference path="./util.ts" />
+/// <reference path="../config/config.ts" />
+
+/**
+ * HTML净化,只保留白名单中的标签和属性
+ */
+namespace drunk.dom {
+
+    import util = drunk.util;
+    import config = drunk.config;
+
+    /**
+     * 连同内容一起移除的标签
+     */
+    const dropContentTags = ['script', 'style', 'template', 'noscript', 'iframe', 'object', 'embed', 'textarea', 'title'];
+
+    /**
+     * 值为链接的属性,需要检查协议
+     */
+    const urlAttributes = ['href', 'src', 'cite', 'action', 'formaction', 'background', 'poster', 'xlink:href'];
+
+    const reScheme = /^([a-z][a-z0-9+.\-]*):/i;
+    const reIgnoredChars = /[\u0000- \u007f-\u009f]/g;
+
+    /**
+     * 使用DOMParser解析html字符串,移除不在config.sanitizeTags中的标签,不在config.sanitizeAttributes中的属性,
+     * 事件属性,以及协议不在config.sanitizeUrlSchemes中的链接,返回净化后的html字符串,
+     * 保留了target属性的元素会加上rel="noopener noreferrer",防止新打开的页面通过window.opener访问当前页面
+     * @param   html  html字符串
+     */
+    export function sanitize(html: string): string {
+        if (html == null || html === '') {
+            return '';
+        }
+
+        let body = parseHTML(String(html));
+        sanitizeChildren(body);
+        return body.innerHTML;
+    }
+
+    function parseHTML(html: string): HTMLElement {
+        let doc: Document;
+
+        if (typeof DOMParser !== 'undefined') {
+            doc = new DOMParser().parseFromString(html, 'text/html');
+        }
+
+        if (!doc || !doc.body) {
+            // 不支持用DOMParser解析html的浏览器,使用不会执行脚本和加载资源的独立document
+            doc = document.implementation.createHTMLDocument('');
+            doc.body.innerHTML = html;
+        }
+
+        return doc.body;
+    }
+
+    function sanitizeChildren(parent: Node): void {
+        util.toArray(parent.childNodes).forEach((node: Node) => {
+            if (node.nodeType === 3) {
+                return;
+            }
+            if (node.nodeType !== 1) {
+                // 注释等其他节点直接移除
+                return parent.removeChild(node);
+            }
+
+            let element = <HTMLElement>node;
+            let tagName = element.tagName.toLowerCase();
+
+            if (dropContentTags.indexOf(tagName) > -1) {
+                return parent.removeChild(element);
+            }
+
+            sanitizeChildren(element);
+
+            if (config.sanitizeTags.indexOf(tagName) < 0) {
+                // 不允许的标签只保留其内容
+                while (element.firstChild) {
+                    parent.insertBefore(element.firstChild, element);
+                }
+                return parent.removeChild(element);
+            }
+
+            sanitizeAttributes(element);
+        });
+    }
+
+    function sanitizeAttributes(element: HTMLElement): void {
+        util.toArray(element.attributes).forEach((attr: Attr) => {
+            let name = attr.name.toLowerCase();
+
+            if (name.indexOf('on') === 0 || config.sanitizeAttributes.indexOf(name) < 0 || (urlAttributes.indexOf(name) > -1 && !isSafeUrl(attr.value))) {
+                element.removeAttribute(attr.name);
+            }
+        });
+
+        if (element.hasAttribute('target')) {
+            element.setAttribute('rel', 'noopener noreferrer');
+        }
+    }
+
+    function isSafeUrl(url: string): boolean {
+        // 浏览器解析链接时会忽略空白和控制字符,如"java\tscript:"
+        let match = url.replace(reIgnoredChars, '').match(reScheme);
+        return !match || config.sanitizeUrlSchemes.indexOf(match[1].toLowerCase()) > -1;
+    }
+}
@@ -33,6 +33,14 @@ namespace drunk.util {
         return Object.prototype.toString.call(target) === '[object Object]' && (proto === Object.prototype || proto === observable.ObservableObjectPrototype);
     }
 
+    /**
+     * 判断是否是thenable对象(drunk.Promise或其他实现了then方法的对象)
+     * @param   target 判断目标
+     */
+    export function isThenable(target: any): boolean {
+        return !!target && (typeof target === 'object' || typeof target === 'function') && typeof target.then === 'function';
+    }
+
     /**
      * 拓展对象
      * @param  destination  目标对象
@@ -20,6 +20,68 @@ namespace drunk {
         [key: string]: any;
     }
 
+    /**
+     * $watch的选项
+     */
+    export interface IWatchOptions {
+
+        /**
+         * 是否深度监听
+         */
+        deep?: boolean;
+
+        /**
+         * 是否立即以当前的值执行一次回调
+         */
+        immediate?: boolean;
+
+        /**
+         * 是否只执行一次回调,执行后自动取消监听
+         */
+        once?: boolean;
+
+        /**
+         * 数据停止变化多少毫秒后才执行回调,使用最后一次的新值和第一次的旧值
+         */
+        debounce?: number;
+
+        /**
+         * 两次回调之间至少间隔多少毫秒,间隔内的变化在间隔结束时以最后一次的新值执行
+         */
+        throttle?: number;
+
+        /**
+         * 数组变更记录的监听,表达式的值为同一个数组且只是元素有增删时,在回调前收到这期间的变更记录,
+         * 见Watcher#addChangeListener,取消监听时一并移除
+         */
+        changes?: IArrayChangeListener;
+    }
+
+    /**
+     * computed属性的定义
+     */
+    export interface IComputedDescriptor {
+        get?: () => any;
+        set?: (value: any) => void;
+
+        /**
+         * 是否缓存求值结果,默认缓存,getter依赖Date.now(),非observable的字段,$parent等非响应式的数据时
+         * 设为false,每次访问都重新求值
+         */
+        cache?: boolean;
+    }
+
+    /**
+     * computed属性在ViewModel实例上的缓存,记录求值时访问的依赖,任意依赖改变时标记为失效,
+     * 并派发该属性的更新,下次访问时再重新求值
+     */
+    export interface IComputedCache {
+        value: any;
+        isDirty: boolean;
+        dependencies: { observer: observable.Observer; property: string }[];
+        invalidate: () => void;
+    }
+
     /**
      * Decorator for ViewModel#$computed
      */
@@ -27,6 +89,7 @@ namespace drunk {
         let getter: any;
         let setter: any;
         let proxies: string[];
+        let isCached = (<IComputedDescriptor>descriptor).cache !== false;
 
         if (descriptor.get) {
             getter = descriptor.get;
@@ -42,6 +105,9 @@ namespace drunk {
                     if (proxies) {
                         proxies.forEach(prop => this.$proxy(prop));
                     }
+                    if (isCached) {
+                        return getComputedValue(this, property, getter);
+                    }
                     try {
                         return getter.call(this);
                     } catch (e) { }
@@ -62,6 +128,107 @@ namespace drunk {
         return descriptor;
     }
 
+    /**
+     * 获取computed属性的值,缓存有效时直接返回缓存的值,
+     * 并让正在求值的watcher订阅该属性(依赖改变时会派发该属性的更新)
+     */
+    function getComputedValue(viewModel: ViewModel, property: string, getter: Function): any {
+        if (!viewModel._computedCaches) {
+            // 已经释放的实例不再缓存
+            try {
+                return getter.call(viewModel);
+            } catch (e) { }
+            return;
+        }
+
+        let cache = viewModel._computedCaches[property];
+
+        if (!cache) {
+            cache = viewModel._computedCaches[property] = {
+                value: undefined,
+                isDirty: true,
+                dependencies: [],
+                invalidate: () => {
+                    if (!cache.isDirty) {
+                        cache.isDirty = true;
+                        observable.create(viewModel._model).$emit(property);
+                    }
+                }
+            };
+        }
+
+        if (cache.isDirty) {
+            evaluateComputed(viewModel, cache, getter);
+        }
+
+        if (observable.onPropertyAccessing) {
+            observable.onPropertyAccessing(observable.create(viewModel._model), property, cache.value, viewModel._model);
+        }
+
+        return cache.value;
+    }
+
+    /**
+     * 重新求值并收集依赖,求值出错时缓存保持失效的状态
+     */
+    function evaluateComputed(viewModel: ViewModel, cache: IComputedCache, getter: Function): void {
+        let accessing = observable.onPropertyAccessing;
+        let dependencies: { observer: observable.Observer; property: string }[] = [];
+
+        observable.onPropertyAccessing = (observer: observable.Observer, property: string) => {
+            if (!dependencies.some(dep => dep.observer === observer && dep.property === property)) {
+                dependencies.push({ observer, property });
+            }
+        };
+
+        try {
+            cache.value = getter.call(viewModel);
+            cache.isDirty = false;
+        }
+        catch (e) {
+            cache.value = undefined;
+        }
+        finally {
+            observable.onPropertyAccessing = accessing;
+        }
+
+        releaseComputedCache(cache);
+        dependencies.forEach(dep => dep.observer.$addListener(dep.property, cache.invalidate));
+        cache.dependencies = dependencies;
+    }
+
+    /**
+     * 取消对所有依赖的订阅
+     */
+    function releaseComputedCache(cache: IComputedCache): void {
+        cache.dependencies.forEach(dep => dep.observer.$removeListener(dep.property, cache.invalidate));
+        cache.dependencies = [];
+    }
+
+    /**
+     * 表达式数组的值是否有变化,每个值的比较规则和watcher一致:深度监听时对象和数组总是认为有变化,
+     * 否则按引用比较(NaN和NaN认为相同)
+     */
+    function isValuesChanged(newValues: any[], oldValues: any[], isDeepWatch: boolean): boolean {
+        return newValues.some((value, index) => {
+            let oldValue = oldValues[index];
+
+            if (isDeepWatch) {
+                return util.isObjectOrNotEqual(value, oldValue);
+            }
+            return value !== oldValue && (value === value || oldValue === oldValue);
+        });
+    }
+
+    /**
+     * 生成同时对多个表达式求值的函数,this指向ViewModel实例,返回所有值的数组
+     */
+    function createMultipleGetter(expressions: string[]): () => any[] {
+        return function () {
+            return expressions.map(expression => this.$eval(expression, Parser.hasInterpolation(expression)));
+        };
+    }
+
     /**
      * ViewModel类， 实现数据与模板元素的绑定
      */
@@ -90,10 +257,15 @@ namespace drunk {
         /** 代理的属性 */
         _proxyProps: { [property: string]: boolean };
 
+        /**
+         * computed属性的缓存表
+         */
+        _computedCaches: { [property: string]: IComputedCache };
+
         /**
          * 过滤器方法,包含内置的
          */
-        $filter: { [name: string]: Filter.IFilter };
+        $filter: { [name: string]: Filter.IFilter | Filter.ITwoWayFilter };
 
         /**
          * 事件处理方法集合
@@ -114,8 +286,7 @@ namespace drunk {
          * @param  model  数据对象
          */
         protected __init(model?: IModel) {
-            model = model || {};
-            observable.create(model);
+            model = observable.reactive(model || {});
 
             Object.defineProperties(this, {
                 $filter: {
@@ -143,6 +314,11 @@ namespace drunk {
                     configurable: true,
                     writable: true
                 },
+                _computedCaches: {
+                    value: {},
+                    configurable: true,
+                    writable: true
+                },
                 _isActived: {
                     value: true,
                     configurable: true,
@@ -197,15 +373,27 @@ namespace drunk {
         }
 
         /**
-         * 根据表达式设置值
+         * 根据表达式设置值,表达式中的filter会按相反的顺序调用其write方法处理后再赋值
          * @param   expression  表达式
          * @param   value       值
          */
         $setValue(expression: string, value: any): void {
             var setter = Parser.parseSetter(expression);
+            if (setter.filters) {
+                value = Filter.pipeBackFor(value, setter.filters, this.$filter, this);
+            }
             setter.call(this, value);
         }
 
+        /**
+         * 在事务中批量修改数据,回调结束后所有的watcher只更新一次,见drunk.batch
+         * @param   callback  修改数据的回调,this指向当前实例
+         * @return            回调的返回值,回调返回Promise时返回一个新的Promise
+         */
+        $transaction<T>(callback: () => T): T {
+            return batch(() => callback.call(this));
+        }
+
         /**
          * 把model数据转成json并返回
          * @return   json格式的不带getter/setter的model对象
@@ -218,47 +406,182 @@ namespace drunk {
 
         /**
          * 监听表达式的里每个数据的变化
-         * @param   expression  表达式
+         * @param   expression  表达式,this指向当前实例的求值函数,或者表达式数组(回调收到的是所有表达式的新值和旧值数组)
+         * @param   action      数据变化的回调
+         * @param   options     是否深度监听,或者是监听的选项
+         * @param   isImmediate 是否立即执行一次回调,options为对象时使用options.immediate
          * @return              返回一个取消监听的函数
          */
-        $watch(expression: string, action: IBindingAction, isDeepWatch?: boolean, isImmediate?: boolean) {
-            var key: string = Watcher.getNameOfKey(expression, isDeepWatch);
+        $watch(expression: string | string[] | (() => any), action: IBindingAction, options?: IWatchOptions | boolean, isImmediate?: boolean): () => void {
+            var watchOptions: IWatchOptions = options && typeof options === 'object' ? <IWatchOptions>options : { deep: <boolean>options, immediate: isImmediate };
+            var isMultiple = Array.isArray(expression);
+            var target = isMultiple ? createMultipleGetter(<string[]>expression) : <string | (() => any)>expression;
+            var key: string = Watcher.getNameOfKey(target, watchOptions.deep);
             var watcher: Watcher;
 
             watcher = this._watchers[key];
 
             if (!watcher) {
-                watcher = this._watchers[key] = new Watcher(this, expression, isDeepWatch);
+                watcher = this._watchers[key] = new Watcher(this, target, watchOptions.deep);
             }
 
-            var wrappedAction: IBindingAction = (newValue: any, oldValue: any) => {
+            var timerId: any;
+            var lastTime: number = 0;
+            var pendingArgs: any[];
+
+            var changeListener: IArrayChangeListener;
+
+            var unwatch = () => {
+                clearTimeout(timerId);
+                timerId = pendingArgs = null;
+                if (changeListener) {
+                    watcher.removeChangeListener(changeListener);
+                    changeListener = null;
+                }
+                watcher.removeAction(wrappedAction);
+            };
+
+            var invoke = (newValue: any, oldValue: any) => {
+                if (!this._isActived) {
+                    return;
+                }
+                if (watchOptions.once) {
+                    unwatch();
+                }
                 action.call(this, newValue, oldValue);
             };
 
+            var invokePending = () => {
+                var args = pendingArgs;
+
+                timerId = pendingArgs = null;
+                lastTime = Date.now();
+                invoke(args[0], args[1]);
+            };
+
+            var wrappedAction: IBindingAction = (newValue: any, oldValue: any) => {
+                if (isMultiple && !isValuesChanged(newValue, oldValue, watchOptions.deep)) {
+                    // 表达式数组每次求值都是新的数组,所有值都没变时不执行回调
+                    return;
+                }
+
+                if (watchOptions.debounce > 0 || watchOptions.throttle > 0) {
+                    if (pendingArgs) {
+                        pendingArgs[0] = newValue;
+                    }
+                    else {
+                        pendingArgs = [newValue, oldValue];
+                    }
+
+                    if (watchOptions.debounce > 0) {
+                        clearTimeout(timerId);
+                        timerId = setTimeout(invokePending, watchOptions.debounce);
+                    }
+                    else if (!timerId) {
+                        let remaining = lastTime + watchOptions.throttle - Date.now();
+
+                        if (remaining > 0) {
+                            timerId = setTimeout(invokePending, remaining);
+                        }
+                        else {
+                            invokePending();
+                        }
+                    }
+                    return;
+                }
+
+                invoke(newValue, oldValue);
+            };
+
             watcher.addAction(wrappedAction);
 
-            if (isImmediate) {
-                wrappedAction(watcher.value, undefined);
+            if (watchOptions.changes) {
+                changeListener = (changes: observable.IArrayChange[], value: any[]) => {
+                    if (this._isActived) {
+                        watchOptions.changes.call(this, changes, value);
+                    }
+                };
+                watcher.addChangeListener(changeListener);
             }
 
-            return () => {
-                watcher.removeAction(wrappedAction);
-            };
+            if (watchOptions.immediate) {
+                lastTime = Date.now();
+                invoke(watcher.value, undefined);
+            }
+
+            return unwatch;
         }
 
+        /**
+         * 调试用,获取表达式当前订阅的所有依赖,见Watcher#getDependencies
+         * @param   expression   表达式或求值函数
+         * @param   isDeepWatch  是否深度监听
+         */
+        $dependencies(expression: string | (() => any), isDeepWatch?: boolean): IWatcherDependency[] {
+            let watcher: Watcher = this._watchers[Watcher.getNameOfKey(expression, isDeepWatch)];
+
+            if (watcher) {
+                return watcher.getDependencies();
+            }
+
+            // 还没有watch的表达式,临时创建watcher求值后立即销毁
+            watcher = new Watcher(this, expression, isDeepWatch);
+
+            let dependencies = watcher.getDependencies();
+            watcher.dispose();
+            return dependencies;
+        }
+
+        /**
+         * 定义computed属性,默认缓存求值结果,求值时访问过的observable数据改变后才会重新求值,
+         * getter依赖非响应式的数据时需要设置cache为false,见IComputedDescriptor
+         * @param   property    属性名
+         * @param   descriptor  getter函数,或者是包含get,set和cache的定义
+         */
         $computed(property: string, descriptor: () => any);
-        $computed(property: string, descriptor: { set?: (value: any) => void, get?: () => any; });
+        $computed(property: string, descriptor: IComputedDescriptor);
         $computed(property: string, descriptor: any) {
-            let observer = observable.create(this._model);
             if (typeof descriptor === 'function') {
                 descriptor = {
                     get: descriptor
                 };
             }
             descriptor = computed(this, property, descriptor);
+            if (this._computedCaches && this._computedCaches[property]) {
+                // 重新定义时丢弃旧的缓存
+                releaseComputedCache(this._computedCaches[property]);
+                delete this._computedCaches[property];
+            }
             Object.defineProperty(this, property, descriptor);
+
+            if (!this._isActived) {
+                // 已经释放的实例只定义属性,访问时直接求值
+                return;
+            }
+
             this._proxyProps[property] = true;
-            observer.$emit(property);
+            observable.create(this._model).$emit(property);
+        }
+
+        /**
+         * 调试用,获取已经求值过的computed属性当前的依赖,依赖以属性名表示
+         * @param   property  computed属性名,不提供时返回所有computed属性的依赖表
+         */
+        $getComputedDependencies(): { [property: string]: string[] };
+        $getComputedDependencies(property: string): string[];
+        $getComputedDependencies(property?: string): any {
+            let getDependencies = (name: string) => {
+                let cache = this._computedCaches && this._computedCaches[name];
+                return cache ? cache.dependencies.map(dep => dep.property) : [];
+            };
+
+            if (property != null) {
+                return getDependencies(property);
+            }
+
+            let result: { [property: string]: string[] } = {};
+            Object.keys(this._computedCaches || {}).forEach(name => result[name] = getDependencies(name));
+            return result;
         }
 
         /**
@@ -283,8 +606,12 @@ namespace drunk {
                 binding.$dispose();
             });
 
+            Object.keys(this._computedCaches).forEach(property => {
+                releaseComputedCache(this._computedCaches[property]);
+            });
+
             EventEmitter.cleanup(this);
-            this._model = this._bindings = this._watchers = this._proxyProps = this.$filter = null;
+            this._model = this._bindings = this._watchers = this._proxyProps = this._computedCaches = this.$filter = null;
             this._isActived = false;
         }
 
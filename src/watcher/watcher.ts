@@ -10,26 +10,68 @@ namespace drunk {
     import Parser = drunk.Parser;
     import observable = drunk.observable;
 
+    /**
+     * 数组变更记录的监听函数
+     */
+    export interface IArrayChangeListener {
+        (changes: observable.IArrayChange[], value: any[]): void;
+    }
+
+    /**
+     * watcher订阅的依赖,target为属性所在的数据,
+     * path为从viewModel的model开始的属性路径,如"user.name",在model中找不到该数据时为undefined
+     */
+    export interface IWatcherDependency {
+        target: any;
+        property: string;
+        path: string;
+    }
+
     export class Watcher {
 
         /**
          * 根据表达式和是否深度监听生成唯一的key,用于储存在关联的viewModel实例的watcher表中
-         * @param   expression  表达式
+         * @param   expression  表达式或求值函数,函数使用其唯一id
          * @param   isDeepWatch 是否深度监听
          */
-        static getNameOfKey(expression: string, isDeepWatch?: boolean): string {
-            return !!isDeepWatch ? expression + '<deep>' : expression;
+        static getNameOfKey(expression: string | (() => any), isDeepWatch?: boolean): string {
+            let key = typeof expression === 'function' ? '<function:' + util.uniqueId(expression) + '>' : <string>expression;
+            return !!isDeepWatch ? key + '<deep>' : key;
         }
 
+        /**
+         * debug模式下watcher更新前的回调,triggers为触发这次更新的属性路径,默认打印到控制台,
+         * 可以替换为自定义的处理函数,设为null时不再记录触发的属性
+         */
+        static onTrigger: (watcher: Watcher, triggers: string[]) => void = (watcher: Watcher, triggers: string[]) => {
+            console.log(`[watcher] "${watcher.expression}" 更新,触发的属性: ${triggers.join(', ')}`);
+        };
+
+        private _key: string;
         private _isInterpolate: boolean;
         private _actions: IBindingAction[] = [];
         private _observers: { [id: string]: observable.Observer } = {};
         private _properties: { [number: string]: { [property: string]: boolean } } = {};
         private _tmpObservers: { [id: string]: observable.Observer };
         private _tmpProperties: { [number: string]: { [property: string]: boolean } };
+        private _targets: { [id: string]: any };
+        private _triggers: { observer: observable.Observer; property: string }[];
         private _isActived: boolean = true;
-        private _throttle: number;
         private _getter: Parser.IGetter;
+        private _pendingPromise: Promise<any>;
+        private _changeListeners: IArrayChangeListener[];
+        private _changeObserver: observable.Observer;
+        private _changes: observable.IArrayChange[];
+
+        /**
+         * 创建的顺序,更新队列按该顺序依次更新
+         */
+        id: number;
+
+        /**
+         * 监听的表达式,监听函数时为函数的源码
+         */
+        expression: string;
 
         /**
          * 表达式求值的结果
@@ -38,18 +80,30 @@ namespace drunk {
 
         /**
          * @param   viewModel   ViewModel实例，用于访问数据
-         * @param   expression  监听的表达式
+         * @param   expression  监听的表达式,或者是this指向viewModel的求值函数
          * @param   isDeepWatch 是否深度监听,当对象或数组里的任意一个数据改变都会发送更新消息
          */
-        constructor(public viewModel: ViewModel, public expression: string, public isDeepWatch?: boolean) {
-            this._isInterpolate = Parser.hasInterpolation(expression);
-            this._getter = this._isInterpolate ? Parser.parseInterpolate(expression) : Parser.parseGetter(expression);
+        constructor(public viewModel: ViewModel, expression: string | (() => any), public isDeepWatch?: boolean) {
+            this._key = Watcher.getNameOfKey(expression, isDeepWatch);
+
+            if (typeof expression === 'function') {
+                this.expression = String(expression);
+                this._getter = <Parser.IGetter>function () {
+                    return (<Function>expression).call(this);
+                };
+            }
+            else {
+                this.expression = <string>expression;
+                this._isInterpolate = Parser.hasInterpolation(this.expression);
+                this._getter = this._isInterpolate ? Parser.parseInterpolate(this.expression) : Parser.parseGetter(this.expression);
 
-            if (!this._getter.dynamic) {
-                throw new Error(`不能watch不包含任何变量的表达式: "${expression}"`);
+                if (!this._getter.dynamic) {
+                    throw new Error(`不能watch不包含任何变量的表达式: "${expression}"`);
+                }
             }
 
             this._propertyChanged = this._propertyChanged.bind(this);
+            this.id = ++watcherId;
             this.value = this._getValue();
         }
 
@@ -80,6 +134,67 @@ namespace drunk {
             }
         }
 
+        /**
+         * 添加数组变更记录的监听,当表达式的值为同一个数组且只是数组元素有增删时,
+         * 会在执行更新回调前把这期间的变更记录(按发生顺序)传给监听函数
+         * @param  listener  监听函数
+         */
+        addChangeListener(listener: IArrayChangeListener): void {
+            if (!this._isActived) {
+                return;
+            }
+            if (!this._changeListeners) {
+                this._changeListeners = [];
+                this._arrayChanged = this._arrayChanged.bind(this);
+            }
+            util.addArrayItem(this._changeListeners, listener);
+            this._observeChanges(this.value);
+        }
+
+        /**
+         * 移除数组变更记录的监听
+         * @param  listener  监听函数
+         */
+        removeChangeListener(listener: IArrayChangeListener): void {
+            if (!this._isActived || !this._changeListeners) {
+                return;
+            }
+
+            util.removeArrayItem(this._changeListeners, listener);
+
+            if (!this._changeListeners.length) {
+                this._changeListeners = null;
+                this._observeChanges(null);
+            }
+        }
+
+        /**
+         * 获取当前订阅的所有依赖,用于调试,
+         * 每个依赖的路径都需要遍历整个model查找,开销与数据的大小成正比,不要在频繁调用的地方使用
+         */
+        getDependencies(): IWatcherDependency[] {
+            let dependencies: IWatcherDependency[] = [];
+
+            if (!this._isActived) {
+                return dependencies;
+            }
+
+            Object.keys(this._observers).forEach(id => {
+                let target = this._targets[id];
+                let path = getPathOfObserver(this.viewModel, this._observers[id]);
+
+                Object.keys(this._properties[id]).forEach(property => {
+                    dependencies.push({
+                        target: target,
+                        property: property,
+                        path: path == null ? undefined : (path ? path + '.' + property : property)
+                    });
+                });
+            });
+
+            return dependencies;
+        }
+
         /**
          * 销毁实例和移除所有应用
          */
@@ -94,14 +209,12 @@ namespace drunk {
                 });
             });
 
-            if (this._throttle) {
-                util.cancelAnimationFrame(this._throttle);
-            }
-
-            let key: string = Watcher.getNameOfKey(this.expression, this.isDeepWatch);
+            this._pendingPromise = null;
+            this._observeChanges(null);
 
-            this.viewModel._watchers[key] = this._propertyChanged = this.value = this.viewModel = this.expression = this._getter = null;
-            this._actions = this._observers = this._properties = this._tmpProperties = this._tmpObservers = null;
+            this.viewModel._watchers[this._key] = this._propertyChanged = this.value = this.viewModel = this.expression = this._getter = null;
+            this._actions = this._observers = this._properties = this._tmpProperties = this._tmpObservers = this._changeListeners = null;
+            this._targets = this._triggers = null;
             this._isActived = false;
         }
 
@@ -109,32 +222,87 @@ namespace drunk {
          * 数据更新派发，会先做缓冲，防止在同一时刻对此出发更新操作，等下一次系统轮训时再真正执行更新操作
          */
         private _propertyChanged(): void {
-            if (!config.renderOptimization) {
-                if (this._throttle) {
-                    util.cancelAnimationFrame(this._throttle);
-                }
-                this._flush();
+            if (config.debug && Watcher.onTrigger && observable.changingProperty) {
+                this._recordTrigger(observable.changingProperty);
             }
-            else if (!this._throttle) {
-                this._throttle = util.requestAnimationFrame(() => this._flush());
+
+            if (batchDepth > 0) {
+                // 批量修改中,等批量修改结束后再统一加入队列
+                util.addArrayItem(batchedWatchers, this);
+                return;
             }
+
+            queueWatcher(this);
         }
 
         /**
          * 立即获取最新的数据判断并判断是否已经更新，如果已经更新，执行所有的回调
          */
-        private _flush(): void {
+        _flush(): void {
             if (!this._isActived) {
                 return;
             }
 
-            this._throttle = null;
+            if (this._triggers) {
+                let triggers = this._triggers;
+                this._triggers = null;
+
+                if (Watcher.onTrigger) {
+                    Watcher.onTrigger(this, triggers.map(change => {
+                        let path = getPathOfObserver(this.viewModel, change.observer);
+                        return path ? path + '.' + change.property : change.property;
+                    }));
+                }
+            }
 
-            let oldValue: any = this.value;
             let newValue: any = this._getValue();
 
+            if (this._pendingPromise) {
+                // filter返回的Promise还未resolve,等resolve后再更新
+                return;
+            }
+
+            this._updateValue(newValue);
+        }
+
+        /**
+         * 记录触发更新的属性,属性路径需要遍历model查找,所以等到更新时再对去重后的属性统一查找
+         */
+        private _recordTrigger(change: { observer: observable.Observer; property: string }): void {
+            if (!this._triggers) {
+                this._triggers = [];
+            }
+            if (!this._triggers.some(trigger => trigger.observer === change.observer && trigger.property === change.property)) {
+                this._triggers.push({ observer: change.observer, property: change.property });
+            }
+        }
+
+        /**
+         * 判断是否已经更新，如果已经更新，执行所有的回调
+         */
+        private _updateValue(newValue: any): void {
+            let oldValue: any = this.value;
+            let changes = this._changes;
+
+            this._changes = null;
+
             if ((typeof newValue === 'object' && newValue != null) || newValue !== oldValue) {
                 this.value = newValue;
+
+                if (this._changeListeners) {
+                    if (changes && newValue === oldValue) {
+                        this._changeListeners.slice().forEach(listener => {
+                            if (this._isActived) {
+                                listener(changes, newValue);
+                            }
+                        });
+                    }
+                    if (!this._isActived) {
+                        return;
+                    }
+                    this._observeChanges(newValue);
+                }
+
                 this._actions.slice().forEach(action => {
                     if (this._isActived) {
                         action(newValue, oldValue);
@@ -143,33 +311,119 @@ namespace drunk {
             }
         }
 
+        /**
+         * 订阅数组的变更记录,值不是可监控数组时取消订阅
+         */
+        private _observeChanges(value: any): void {
+            let observer: observable.Observer = Array.isArray(value) ? (<observable.IObservableArray<any>>value).__observer__ : null;
+
+            if (observer === this._changeObserver) {
+                return;
+            }
+            if (this._changeObserver) {
+                this._changeObserver.removeArrayChangedCallback(this._arrayChanged);
+            }
+
+            this._changes = null;
+            this._changeObserver = observer;
+
+            if (observer) {
+                observer.addArrayChangedCallback(this._arrayChanged);
+            }
+        }
+
+        /**
+         * 收集数组的变更记录,等到更新时再一起派发
+         */
+        private _arrayChanged(change: observable.IArrayChange): void {
+            if (!this._changes) {
+                this._changes = [];
+            }
+            this._changes.push(change);
+        }
+
         /**
          * 执行表达式函数获取最新的数据
          */
         private _getValue(): any {
+            let newValue: any;
+
             this._beforeAccess();
 
-            let newValue = this._getter.call(this.viewModel);
+            try {
+                newValue = this._getter.call(this.viewModel);
+
+                if (this.isDeepWatch) {
+                    visit(newValue);
+                }
+
+                this._pendingPromise = null;
 
-            if (this.isDeepWatch) {
-                visit(newValue);
+                if (this._getter.filters) {
+                    // 派发到各个filter中处理
+                    newValue = Filter.pipeFor(newValue, this._getter.filters, this.viewModel.$filter, this._isInterpolate, this.viewModel);
+                }
+            }
+            finally {
+                // 求值函数抛出异常时也要清除属性访问回调,否则之后所有的属性访问都会订阅到这个watcher
+                this._accessed();
             }
 
-            if (this._getter.filters) {
-                // 派发到各个filter中处理
-                newValue = Filter.pipeFor(newValue, this._getter.filters, this.viewModel.$filter, this._isInterpolate, this.viewModel);
+            if (util.isThenable(newValue)) {
+                newValue = this._waitForPromise(newValue);
             }
 
-            this._accessed();
             return newValue;
         }
 
+        /**
+         * 等待异步filter返回的Promise,在resolve之前先使用旧的值作为占位,
+         * resolve后再更新,如果在此期间数据再次改变了,则忽略这次的结果
+         */
+        private _waitForPromise(thenable: any): any {
+            let promise = Promise.resolve(thenable);
+            let isSync = true;
+            let isResolved = false;
+            let result: any;
+
+            this._pendingPromise = promise;
+
+            promise.then(value => {
+                if (isSync) {
+                    // 已经resolve的Promise会同步执行回调
+                    isResolved = true;
+                    result = value;
+                    return;
+                }
+                if (!this._isActived || this._pendingPromise !== promise) {
+                    return;
+                }
+                this._pendingPromise = null;
+                this._updateValue(value);
+            }, reason => {
+                if (this._isActived && this._pendingPromise === promise) {
+                    this._pendingPromise = null;
+                    console.error(`表达式"${this.expression}"的filter处理失败:`, reason);
+                }
+            });
+
+            isSync = false;
+
+            if (isResolved) {
+                this._pendingPromise = null;
+                return result;
+            }
+
+            return this.value;
+        }
+
         /**
          * 设置observable的属性访问回调为当前watcher实例的订阅方法,当访问某个属性是就会对该属性进行订阅
          */
         private _beforeAccess(): void {
             this._tmpObservers = {};
             this._tmpProperties = {};
+            this._targets = {};
             observable.onPropertyAccessing = this._subscribePropertyChanged.bind(this);
         }
 
@@ -211,10 +465,12 @@ namespace drunk {
          * @param  observer 属性的所属观察者
          * @param  property 属性名
          */
-        private _subscribePropertyChanged(observer: observable.Observer, property: string) {
+        private _subscribePropertyChanged(observer: observable.Observer, property: string, value?: any, data?: any) {
             let { _observers, _properties, _tmpObservers, _tmpProperties, _propertyChanged } = this;
             let id = util.uniqueId(observer);
 
+            this._targets[id] = data;
+
             if (!_tmpObservers[id]) {
                 // 添加到临时订阅observer表
                 // 添加到临时订阅属性列表
@@ -246,6 +502,253 @@ namespace drunk {
         }
     }
 
+    /**
+     * 获取observer所属的对象在viewModel的model中的属性路径,查找时不会订阅访问到的属性
+     */
+    function getPathOfObserver(viewModel: ViewModel, observer: observable.Observer): string {
+        let accessing = observable.onPropertyAccessing;
+
+        observable.onPropertyAccessing = null;
+
+        try {
+            return findPath(viewModel._model, observer);
+        }
+        finally {
+            observable.onPropertyAccessing = accessing;
+        }
+    }
+
+    /**
+     * 在数据中查找observer所属的对象,返回属性路径,数据本身返回空字符串,找不到时返回null
+     */
+    function findPath(data: any, observer: observable.Observer, visited: any[] = []): string {
+        if (!data || typeof data !== 'object' || visited.indexOf(data) > -1) {
+            return null;
+        }
+        if (data.__observer__ === observer) {
+            return '';
+        }
+
+        visited.push(data);
+
+        let keys = Object.keys(data);
+
+        for (let i = 0; i < keys.length; i++) {
+            let path = findPath(data[keys[i]], observer, visited);
+
+            if (path != null) {
+                return path ? keys[i] + '.' + path : keys[i];
+            }
+        }
+
+        return null;
+    }
+
+    let watcherId = 0;
+    let flushQueue: Watcher[] = [];
+    let flushJob: number;
+    let flushing = false;
+    let flushIndex = 0;
+    let tickCallbacks: Function[] = [];
+
+    /**
+     * 把watcher加入更新队列,队列中还未更新的watcher不会重复加入,
+     * 更新过程中加入的watcher按创建顺序插入到当前位置之后,在这一轮中更新
+     */
+    function queueWatcher(watcher: Watcher): void {
+        enqueueWatcher(watcher);
+        scheduleFlush();
+    }
+
+    function enqueueWatcher(watcher: Watcher): void {
+        if (flushQueue.indexOf(watcher, flushing ? flushIndex + 1 : 0) > -1) {
+            return;
+        }
+
+        if (!flushing) {
+            flushQueue.push(watcher);
+        }
+        else {
+            let i = flushQueue.length - 1;
+            while (i > flushIndex && flushQueue[i].id > watcher.id) {
+                i--;
+            }
+            flushQueue.splice(i + 1, 0, watcher);
+        }
+    }
+
+    function scheduleFlush(): void {
+        if (!config.renderOptimization) {
+            flushSync();
+        }
+        else {
+            requestFlush();
+        }
+    }
+
+    function requestFlush(): void {
+        if (!flushJob) {
+            flushJob = util.requestAnimationFrame(flushQueued);
+        }
+    }
+
+    function flushQueued(): void {
+        flushJob = null;
+        flushSync();
+    }
+
+    /**
+     * 按watcher的创建顺序(父级先于子级)依次更新,
+     * 同一个watcher在一轮更新中被重复触发超过config.maxFlushCount次时认为存在循环更新,终止这一轮更新
+     */
+    function runQueue(): void {
+        let flushCounts: { [id: number]: number } = {};
+
+        flushing = true;
+        flushQueue.sort((a, b) => a.id - b.id);
+
+        for (flushIndex = 0; flushIndex < flushQueue.length; flushIndex++) {
+            let watcher = flushQueue[flushIndex];
+            let count = flushCounts[watcher.id] = (flushCounts[watcher.id] || 0) + 1;
+
+            if (count > config.maxFlushCount) {
+                console.error(`watcher在一轮更新中被触发了超过${config.maxFlushCount}次,可能存在循环更新,表达式: "${watcher.expression}"`);
+                break;
+            }
+
+            try {
+                watcher._flush();
+            }
+            catch (e) {
+                // 不影响队列中其他watcher的更新
+                console.error(e);
+            }
+        }
+
+        flushQueue = [];
+        flushIndex = 0;
+        flushing = false;
+    }
+
+    function runTickCallbacks(): void {
+        let callbacks = tickCallbacks;
+        tickCallbacks = [];
+        callbacks.forEach(callback => callback());
+    }
+
+    /**
+     * 返回一个Promise,在所有等待中的watcher更新完成后resolve,此时视图已经是最新的数据
+     */
+    export function nextTick(): Promise<void> {
+        return new Promise<void>((resolve) => {
+            tickCallbacks.push(resolve);
+            requestFlush();
+        });
+    }
+
+    /**
+     * 立即执行所有等待中的watcher更新,包括更新过程中新触发的watcher,
+     * 在批量修改中调用时会把已经推迟的更新也一并执行
+     */
+    export function flushSync(): void {
+        if (flushing) {
+            // 正在更新中,新触发的watcher会在这一轮中更新
+            return;
+        }
+
+        releaseBatchedWatchers();
+
+        if (flushJob) {
+            util.cancelAnimationFrame(flushJob);
+            flushJob = null;
+        }
+
+        runQueue();
+        runTickCallbacks();
+    }
+
+    let batchDepth = 0;
+    let batchedWatchers: Watcher[] = [];
+
+    /**
+     * 批量修改数据,回调执行期间所有watcher的更新都会被推迟,回调结束后每个watcher只更新一次,
+     * 支持嵌套调用(最外层结束时才更新),回调返回Promise时等到Promise完成后再更新。
+     * 推迟是全局的,异步批量修改期间整个应用(包括与回调无关的数据)的更新都会被推迟,
+     * 最长推迟config.batchTimeout毫秒,需要提前更新时可以调用drunk.flushSync
+     * @param  callback  修改数据的回调
+     * @return           回调的返回值,回调返回Promise时返回一个新的Promise
+     */
+    export function batch<T>(callback: () => T): T {
+        let result: any;
+
+        batchDepth++;
+
+        try {
+            result = callback();
+        }
+        catch (e) {
+            endBatch();
+            throw e;
+        }
+
+        if (!util.isThenable(result)) {
+            endBatch();
+            return result;
+        }
+
+        let isEnded = false;
+        let timerId: any;
+        let end = () => {
+            if (!isEnded) {
+                isEnded = true;
+                clearTimeout(timerId);
+                endBatch();
+            }
+        };
+
+        if (config.batchTimeout > 0) {
+            timerId = setTimeout(() => {
+                console.warn(`异步批量修改超过${config.batchTimeout}ms未完成,已提前派发推迟的更新`);
+                end();
+            }, config.batchTimeout);
+        }
+
+        return <any>Promise.resolve(result).then(value => {
+            end();
+            return value;
+        }, reason => {
+            end();
+            return Promise.reject(reason);
+        });
+    }
+
+    /**
+     * 结束一层批量修改,最外层结束时把所有推迟的watcher加入队列后统一更新一次
+     */
+    function endBatch(): void {
+        if (--batchDepth > 0) {
+            return;
+        }
+
+        if (releaseBatchedWatchers()) {
+            scheduleFlush();
+        }
+    }
+
+    /**
+     * 把批量修改中推迟的watcher加入更新队列,返回是否有推迟的watcher
+     */
+    function releaseBatchedWatchers(): boolean {
+        if (!batchedWatchers.length) {
+            return false;
+        }
+
+        let watchers = batchedWatchers;
+        batchedWatchers = [];
+        watchers.forEach(enqueueWatcher);
+        return true;
+    }
+
     // 遍历访问所有的属性以订阅所有的数据
     function visit(target: any) {
         if (util.isPlainObjectOrObservableObject(target)) {
@@ -253,7 +756,7 @@ namespace drunk {
                 visit(target[key]);
             });
         }
-        else if (Array.isArray(target)) {
+        else if (Array.isArray(target) || observable.isMap(target) || observable.isSet(target)) {
             target.forEach(item => {
                 visit(item);
             });
@@ -0,0 +1,28 @@
+/// <reference path="../../jasmine.d.ts" />
+/// <reference path="../../../build/drunk.d.ts" />
+
+describe("Binding.html", function () {
+    var Ctor = drunk.Binding.getByName('html');
+    var binding;
+
+    it("render sanitized html", function () {
+        binding = new Ctor(new drunk.Component(), drunk.dom.create("<div></div>"), {});
+        binding.update('<p onclick="alert(1)">hello <b>world</b></p><script>alert(1)</script>');
+
+        expect(binding.element.innerHTML).toBe("<p>hello <b>world</b></p>");
+    });
+
+    it("add rel to links with target", function () {
+        binding = new Ctor(new drunk.Component(), drunk.dom.create("<div></div>"), {});
+        binding.update('<a href="https://example.com" target="_blank" rel="opener">a</a><a href="/path">b</a>');
+
+        expect(binding.element.innerHTML).toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">a</a><a href="/path">b</a>');
+    });
+
+    it("render empty value", function () {
+        binding = new Ctor(new drunk.Component(), drunk.dom.create("<div>123</div>"), {});
+        binding.update(null);
+
+        expect(binding.element.innerHTML).toBe("");
+    });
+});
@@ -0,0 +1,202 @@
+/// <reference path="../../jasmine.d.ts" />
+/// <reference path="../../../build/drunk.d.ts" />
+
+describe("Binding.on", function () {
+    var Ctor = drunk.Binding.getByName('on');
+    var vm, element;
+
+    function createBinding(expression, attribute) {
+        var binding = new Ctor(vm, element, { expression: expression, attribute: attribute });
+        binding.init();
+        return binding;
+    }
+
+    function dispatch(target, type, init) {
+        var event = new Event(type, { bubbles: true, cancelable: true });
+        drunk.util.extend(event, init);
+        target.dispatchEvent(event);
+        return event;
+    }
+
+    beforeEach(function () {
+        vm = new drunk.Component();
+        vm.handle = jasmine.createSpy('handle');
+        element = drunk.dom.create("<div><span></span></div>");
+    });
+
+    afterEach(function () {
+        delete drunk.keyAliases.f2;
+    });
+
+    it("call the expression", function () {
+        createBinding("click: handle($event)");
+
+        var event = dispatch(element, 'click');
+
+        expect(vm.handle).toHaveBeenCalledWith(event);
+        expect(event.defaultPrevented).toBe(false);
+    });
+
+    it("prevent and stop modifiers", function () {
+        var parentSpy = jasmine.createSpy('parent');
+        var parent = document.createElement('div');
+
+        parent.appendChild(element);
+        parent.addEventListener('submit', parentSpy);
+        createBinding("submit.prevent.stop: handle()");
+
+        var event = dispatch(element, 'submit');
+
+        expect(vm.handle).toHaveBeenCalled();
+        expect(event.defaultPrevented).toBe(true);
+        expect(parentSpy).not.toHaveBeenCalled();
+    });
+
+    it("once modifier", function () {
+        createBinding("click.once: handle()");
+
+        dispatch(element, 'click');
+        dispatch(element, 'click');
+
+        expect(vm.handle.calls.count()).toBe(1);
+    });
+
+    it("self modifier", function () {
+        createBinding("click.self: handle()");
+
+        dispatch(element.firstChild, 'click');
+        expect(vm.handle).not.toHaveBeenCalled();
+
+        dispatch(element, 'click');
+        expect(vm.handle).toHaveBeenCalled();
+    });
+
+    it("key modifiers", function () {
+        createBinding("keyup.enter: handle('enter'); keydown.a: handle('a')");
+
+        dispatch(element, 'keyup', { key: 'Escape' });
+        dispatch(element, 'keydown', { key: 'b' });
+        expect(vm.handle).not.toHaveBeenCalled();
+
+        dispatch(element, 'keyup', { key: 'Enter' });
+        dispatch(element, 'keydown', { key: 'A' });
+        expect(vm.handle.calls.allArgs()).toEqual([['enter'], ['a']]);
+    });
+
+    it("custom key alias", function () {
+        drunk.registerKeyAlias('f2', ['F2', 113]);
+        createBinding("handle()", "keyup.f2");
+
+        dispatch(element, 'keyup', { key: 'F1' });
+        expect(vm.handle).not.toHaveBeenCalled();
+
+        dispatch(element, 'keyup', { key: 'F2' });
+        expect(vm.handle).toHaveBeenCalled();
+    });
+
+    it("release", function () {
+        var binding = createBinding("scroll.passive: handle()");
+
+        binding.release();
+        dispatch(element, 'scroll');
+
+        expect(vm.handle).not.toHaveBeenCalled();
+    });
+
+    describe("event delegation", function () {
+        var component, container;
+
+        beforeEach(function () {
+            drunk.config.eventDelegation = true;
+
+            component = new drunk.Component({ list: ['a', 'b'] });
+            component.handle = jasmine.createSpy('handle');
+            container = drunk.dom.create("<div><p drunk-repeat='item in list' drunk-on='click: handle(item); click.self: handle(\"self\")'><span></span></p></div>");
+            component.$mount(container);
+        });
+
+        afterEach(function () {
+            drunk.config.eventDelegation = false;
+            component.$release();
+        });
+
+        it("register one listener on the repeat container", function () {
+            var items = container.querySelectorAll('p');
+
+            expect(container['DRUNK-EVENT-DELEGATORS'].click.count).toBe(4);
+
+            dispatch(items[1].firstChild, 'click');
+            expect(component.handle.calls.allArgs()).toEqual([['b']]);
+
+            dispatch(items[0], 'click');
+            expect(component.handle.calls.allArgs()).toEqual([['b'], ['a'], ['self']]);
+        });
+
+        it("remove the listener when items are released", function (done) {
+            component.list.pop();
+
+            drunk.nextTick().then(function () {
+                expect(container['DRUNK-EVENT-DELEGATORS'].click.count).toBe(2);
+
+                component.list.pop();
+                return drunk.nextTick();
+            }).then(function () {
+                expect(container['DRUNK-EVENT-DELEGATORS'].click).toBeUndefined();
+                done();
+            });
+        });
+
+        describe("with nested elements", function () {
+            var nestedComponent, nested;
+
+            beforeEach(function () {
+                nestedComponent = new drunk.Component({ list: ['a', 'b'] });
+                nestedComponent.handle = jasmine.createSpy('handle');
+                nested = drunk.dom.create("<div><p drunk-repeat='item in list' drunk-on='click: handle(item)'>" +
+                    "<button drunk-on='click: handle(\"inner\", item)'><i></i></button>" +
+                    "<em drunk-on='click.stop: handle(\"stop\", item)'></em>" +
+                    "<b drunk-on='click.once: handle(\"once\", item)'></b></p></div>");
+                nestedComponent.$mount(nested);
+            });
+
+            afterEach(function () {
+                // 外层容器的代理不应该参与嵌套容器中的事件
+                expect(container['DRUNK-EVENT-DELEGATORS'].click.count).toBe(4);
+                expect(component.handle).not.toHaveBeenCalled();
+                nestedComponent.$release();
+            });
+
+            it("call handlers from the target up to the container", function () {
+                var button = nested.querySelectorAll('button')[1];
+
+                dispatch(button.firstChild, 'click');
+
+                expect(nestedComponent.handle.calls.allArgs()).toEqual([['inner', 'b'], ['b']]);
+            });
+
+            it("stop modifier", function () {
+                var parentSpy = jasmine.createSpy('parent');
+                var parent = document.createElement('div');
+
+                parent.appendChild(nested);
+                parent.addEventListener('click', parentSpy);
+
+                dispatch(nested.querySelector('em'), 'click');
+
+                expect(nestedComponent.handle.calls.allArgs()).toEqual([['stop', 'a']]);
+                expect(parentSpy).not.toHaveBeenCalled();
+            });
+
+            it("once modifier", function () {
+                var count = nested['DRUNK-EVENT-DELEGATORS'].click.count;
+                var b = nested.querySelector('b');
+
+                dispatch(b, 'click');
+                dispatch(b, 'click');
+
+                expect(nestedComponent.handle.calls.allArgs()).toEqual([['once', 'a'], ['a'], ['a']]);
+                expect(nested['DRUNK-EVENT-DELEGATORS'].click.count).toBe(count - 1);
+            });
+        });
+    });
+});
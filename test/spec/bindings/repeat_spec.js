@@ -41,6 +41,14 @@ describe("Binding.repeat", function () {
         });
     });
 
+    it("should convert map and set to list", function () {
+        var map = new Map([['a', 1], ['b', 2]]);
+        var set = new Set(['x', 'y']);
+
+        expect(drunk.RepeatItem.toList(map)).toEqual([{ key: 'a', idx: 0, val: 1 }, { key: 'b', idx: 1, val: 2 }]);
+        expect(drunk.RepeatItem.toList(set)).toEqual([{ key: 0, idx: 0, val: 'x' }, { key: 1, idx: 1, val: 'y' }]);
+    });
+
     it("should create item view model", function () {
         binding.expression = "item in list";
         binding.init();
@@ -195,6 +203,66 @@ describe("Binding.repeat", function () {
         });
     });
 
+    describe("array change records", function () {
+        var vm, element;
+
+        beforeEach(function () {
+            vm = new drunk.Component({ list: ['a', 'b', 'c'] });
+            element = drunk.dom.create("<div><p drunk-repeat='item, index in list'>{{index}}:{{item}}</p></div>");
+            vm.$mount(element);
+        });
+
+        afterEach(function () {
+            vm.$release();
+        });
+
+        function getTexts() {
+            return drunk.util.toArray(element.querySelectorAll('p')).map(function (p) {
+                return p.textContent;
+            });
+        }
+
+        it("should patch only the affected items", function (done) {
+            var oldElements = drunk.util.toArray(element.querySelectorAll('p'));
+            var binding = drunk.Binding.instancesById[Object.keys(drunk.Binding.instancesById).filter(function (id) {
+                var item = drunk.Binding.instancesById[id];
+                return item.viewModel === vm && item._itemVms;
+            })[0]];
+
+            spyOn(binding, "_getRepeatItem").and.callThrough();
+            spyOn(binding, "update").and.callThrough();
+
+            vm.list.splice(1, 1, 'x', 'y');
+            vm.list.push('d');
+
+            drunk.nextTick().then(function () {
+                expect(getTexts()).toEqual(['0:a', '1:x', '2:y', '3:c', '4:d']);
+                expect(binding._getRepeatItem.calls.count()).toBe(3);
+                expect(binding._itemVms.length).toBe(5);
+
+                var elements = element.querySelectorAll('p');
+                expect(elements[0]).toBe(oldElements[0]);
+                expect(elements[3]).toBe(oldElements[2]);
+                done();
+            });
+        });
+
+        it("should reuse items when sort or reverse", function (done) {
+            var oldElements = drunk.util.toArray(element.querySelectorAll('p'));
+
+            vm.list.reverse();
+
+            drunk.nextTick().then(function () {
+                var elements = element.querySelectorAll('p');
+
+                expect(getTexts()).toEqual(['0:c', '1:b', '2:a']);
+                expect(elements[0]).toBe(oldElements[2]);
+                expect(elements[2]).toBe(oldElements[0]);
+                done();
+            });
+        });
+    });
+
     it("release", function () {
         binding.expression = "val, key in object";
         binding.element = drunk.dom.create("<div id='{{key}}'>{{val}}</div>");
@@ -216,4 +284,117 @@ describe("Binding.repeat", function () {
             expect(vm._isActived).toBe(false);
         });
     });
+
+    describe("track by", function () {
+        var vm, element;
+
+        beforeEach(function () {
+            vm = new drunk.Component({ list: [{ id: 1, name: 'a' }, { id: 2, name: 'b' }, { id: 3, name: 'c' }] });
+            element = drunk.dom.create("<div><p drunk-repeat='item in list track by item.id'>{{item.name}}</p></div>");
+            vm.$mount(element);
+        });
+
+        afterEach(function () {
+            vm.$release();
+        });
+
+        function getTexts() {
+            return drunk.util.toArray(element.querySelectorAll('p')).map(function (p) {
+                return p.textContent;
+            });
+        }
+
+        it("should parse the track by expression", function () {
+            binding.expression = "item, index in list | filter1 track by item.id";
+            binding.init();
+
+            expect(binding._param).toEqual({ key: "index", val: "item" });
+            expect(binding.expression).toBe("list | filter1");
+            expect(binding._trackBy).toBeDefined();
+        });
+
+        it("should reject filters in the track by expression", function () {
+            binding.expression = "item in list track by item.id | lowercase";
+
+            expect(function () {
+                binding.init();
+            }).toThrowError(TypeError);
+        });
+
+        it("should report undefined and duplicated keys", function () {
+            spyOn(console, 'error');
+
+            vm.list = [{ id: 1, name: 'x' }, { name: 'y' }];
+            drunk.flushSync();
+
+            expect(console.error.calls.count()).toBe(1);
+            expect(console.error.calls.argsFor(0)[0].message).toContain('undefined');
+            expect(getTexts()).toEqual(['a', 'b', 'c']);
+
+            vm.list = [{ id: 1, name: 'x' }, { id: 1, name: 'y' }];
+            drunk.flushSync();
+
+            expect(console.error.calls.count()).toBe(2);
+            expect(console.error.calls.argsFor(1)[0].message).toContain('重复');
+            expect(getTexts()).toEqual(['a', 'b', 'c']);
+        });
+
+        it("should report duplicated keys when patching", function () {
+            spyOn(console, 'error');
+
+            vm.list.push({ id: 2, name: 'd' });
+            drunk.flushSync();
+
+            expect(console.error).toHaveBeenCalled();
+            expect(getTexts()).toEqual(['a', 'b', 'c']);
+        });
+
+        it("should compute the key once for each item", function (done) {
+            spyOn(Ctor.prototype, '_getTrackKey').and.callThrough();
+
+            vm.list = [{ id: 4, name: 'd' }, vm.list[0]];
+
+            drunk.nextTick().then(function () {
+                expect(getTexts()).toEqual(['d', 'a']);
+                expect(Ctor.prototype._getTrackKey.calls.count()).toBe(2);
+                done();
+            });
+        });
+
+        it("should not leak the item variable into the parent", function () {
+            expect(getTexts()).toEqual(['a', 'b', 'c']);
+            expect(vm._proxyProps.item).toBeFalsy();
+            expect(vm._model.hasOwnProperty('item')).toBe(false);
+            expect(vm.hasOwnProperty('item')).toBe(false);
+        });
+
+        it("should reuse items with the same key", function (done) {
+            var oldElements = drunk.util.toArray(element.querySelectorAll('p'));
+
+            vm.list = [{ id: 3, name: 'C' }, { id: 1, name: 'A' }, { id: 4, name: 'd' }];
+
+            drunk.nextTick().then(function () {
+                var elements = element.querySelectorAll('p');
+
+                expect(getTexts()).toEqual(['C', 'A', 'd']);
+                expect(elements[0]).toBe(oldElements[2]);
+                expect(elements[1]).toBe(oldElements[0]);
+                expect(oldElements[1].parentNode).toBeNull();
+                done();
+            });
+        });
+
+        it("should only move the items out of the longest increasing subsequence", function (done) {
+            var list = vm.list;
+
+            spyOn(drunk.dom, 'before').and.callThrough();
+            vm.list = [list[1], list[2], list[0]];
+
+            drunk.nextTick().then(function () {
+                expect(getTexts()).toEqual(['b', 'c', 'a']);
+                expect(drunk.dom.before.calls.count()).toBe(1);
+                done();
+            });
+        });
+    });
 });
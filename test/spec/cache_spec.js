@@ -44,5 +44,19 @@ describe("Cache", function () {
         
         expect(stringify()).toBe('d->c->b');
     });
+
+    it("remove", function () {
+        cache.remove('c');
+        expect(stringify()).toBe('d->b');
+        expect(cache._count).toBe(2);
+
+        cache.remove('b');
+        expect(cache._tail.key).toBe('d');
+
+        cache.remove('d');
+        expect(cache._head).toBeNull();
+        expect(cache._tail).toBeNull();
+        expect(cache._count).toBe(0);
+    });
 });
 
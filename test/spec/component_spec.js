@@ -103,6 +103,53 @@ describe("Component", function () {
         });
     });
 
+    it("filters inherited by sub class and child component", function (done) {
+        var Parent = drunk.Component.define('filter-parent', {
+            template: '<div><filter-child></filter-child></div>',
+            filters: {
+                double: function (n) {
+                    return n * 2;
+                }
+            }
+        });
+        var Sub = Parent.extend({
+            filters: {
+                triple: function (n) {
+                    return n * 3;
+                }
+            }
+        });
+        drunk.Component.define('filter-child', {
+            template: '<span>{{2|double|plus:1}}</span>',
+            filters: {
+                plus: function (a, b) {
+                    return a + b;
+                }
+            }
+        });
+
+        var sub = new Sub();
+        expect(sub.$eval('2|double|triple')).toBe(12);
+
+        var parent = new Parent();
+        parent.$processTemplate().then(parent.$mount.bind(parent)).then(function () {
+            drunk.util.execAsyncWork(function () {
+                expect(parent.element.textContent.trim()).toBe('5');
+                expect(parent.$filter.plus).toBeUndefined();
+                done();
+            });
+        });
+    });
+
+    it("error names the missing filter and its component", function () {
+        var MyView = drunk.Component.define('missing-filter-view', {});
+        var view = new MyView();
+
+        expect(function () {
+            view.$eval('a|notExist');
+        }).toThrowError('未找到filter的定义: notExist, 所在组件: missing-filter-view');
+    });
+
     it("release", function () {
 
         view.$mount(elem);
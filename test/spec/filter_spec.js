@@ -54,6 +54,20 @@ describe("filter", function () {
         expect(filter.default(emptyObject, defaultValue)).toBe(emptyObject);
     });
 
+    it("sanitize", function () {
+        expect(filter.sanitize('<div class="a" style="color:red" onmouseover="x()">text</div>')).toEqual('<div class="a">text</div>');
+        expect(filter.sanitize('<a href="javascript:alert(1)">a</a><a href=" java\tscript:alert(1)">b</a>')).toEqual('<a>a</a><a>b</a>');
+        expect(filter.sanitize('<a href="https://example.com" target="_blank">a</a><a href="/path">b</a>')).toEqual('<a href="https://example.com" target="_blank" rel="noopener noreferrer">a</a><a href="/path">b</a>');
+        expect(filter.sanitize('<custom-tag><em>kept</em></custom-tag><style>p{}</style><!-- comment -->')).toEqual('<em>kept</em>');
+        expect(filter.sanitize('<img src="x.png" onerror="alert(1)">')).toEqual('<img src="x.png">');
+        expect(filter.sanitize(null)).toEqual('');
+
+        var tags = drunk.config.sanitizeTags;
+        drunk.config.sanitizeTags = ['b'];
+        expect(filter.sanitize('<p><b>bold</b></p>')).toEqual('<b>bold</b>');
+        drunk.config.sanitizeTags = tags;
+    });
+
     it("date", function () {
         var time1  = 1421051645040;
         var time2  = "2015-01-12 16:34";
@@ -62,6 +76,225 @@ describe("filter", function () {
 
         expect(filter.date(time1, format)).toEqual(result);
         expect(filter.date(time2, format)).toEqual(result);
+        expect(filter.date(0, format)).toEqual('');
+        expect(filter.date(null, format)).toEqual('');
+    });
+
+    it("date keeps other letters in the format as they are", function () {
+        var time = "2015-01-12 16:34";
+
+        expect(filter.date(time, "Date: yyyy-MM-dd")).toEqual("Date: 2015-01-12");
+        expect(filter.date(time, "[Week] hh:mm a SZ")).toEqual("[Week] 16:34 a SZ");
+    });
+
+    it("date with timezone and extended tokens", function () {
+        var time = "2015-01-12T08:34:05.040Z";
+
+        drunk.config.dateExtendedTokens = true;
+
+        expect(filter.date(time, "yyyy-MM-dd HH:mm:ss.SSS", "UTC")).toEqual("2015-01-12 08:34:05.040");
+        expect(filter.date(time, "yyyy-MM-dd HH:mm Z", "+05:30")).toEqual("2015-01-12 14:04 +05:30");
+        expect(filter.date(time, "hh:mm a", "-0500")).toEqual("03:34 上午");
+        expect(filter.date(time, "h:mm a", "UTC")).toEqual("8:34 上午");
+        expect(filter.date(time, "E ww ZZ", "UTC")).toEqual("1 03 +0000");
+        expect(filter.date("2021-01-03", "[week] w")).toEqual("week 53");
+        expect(filter.date(time, "[Date:] hh:mm", "UTC")).toEqual("Date: 08:34");
+        expect(filter.date(time, "hh:mm [a]", "UTC")).toEqual("08:34 a");
+
+        drunk.config.dateExtendedTokens = false;
+    });
+
+    it("date with invalid timezone", function () {
+        var time = "2015-01-12T08:34:05.040Z";
+
+        spyOn(console, 'warn');
+
+        expect(filter.date(time, "yyyy-MM-dd HH:mm", "Asia/Shanghai")).toEqual(filter.date(time, "yyyy-MM-dd HH:mm"));
+        expect(console.warn).toHaveBeenCalled();
+    });
+
+    it("parseDate", function () {
+        var parseDate = drunk.Filter.parseDate;
+        var utc = Date.UTC(2015, 0, 12, 8, 34, 5, 40);
+
+        expect(parseDate("2015-01-12T08:34:05.040Z").getTime()).toBe(utc);
+        expect(parseDate("2015-01-12T16:34:05.04+08:00").getTime()).toBe(utc);
+        expect(parseDate("2015-01-12T03:34:05.040-0500").getTime()).toBe(utc);
+        expect(parseDate("2015-01-12").getTime()).toBe(new Date(2015, 0, 12).getTime());
+        expect(parseDate("2015-01-12 16:34").getTime()).toBe(new Date(2015, 0, 12, 16, 34).getTime());
+        expect(parseDate(String(utc)).getTime()).toBe(utc);
+        expect(parseDate(utc).getTime()).toBe(utc);
+        expect(parseDate("not a date")).toBeNull();
+        expect(parseDate("")).toBeNull();
+    });
+
+    it("date with localized names", function () {
+        var time = "2015-01-12 16:34";
+
+        expect(filter.date(time, "yyyy MMM d dddd")).toEqual("2015 1月 12 星期一");
+
+        drunk.Filter.setLocale('en');
+        expect(filter.date(time, "dddd, MMMM d yyyy")).toEqual("Monday, January 12 2015");
+        expect(filter.date(time, "ddd MMM dd")).toEqual("Mon Jan 12");
+        drunk.Filter.setLocale('zh-CN');
+    });
+
+    it("number", function () {
+        expect(filter.number(1234567.891)).toEqual("1,234,567.891");
+        expect(filter.number(1234.5678)).toEqual("1,234.568");
+        expect(filter.number(1234.5, 2)).toEqual("1,234.50");
+        expect(filter.number(-1234, 0)).toEqual("-1,234");
+        expect(filter.number(null)).toEqual("");
+        expect(filter.number("abc")).toEqual("");
+    });
+
+    it("currency", function () {
+        expect(filter.currency(1234.5)).toEqual("¥1,234.50");
+        expect(filter.currency(-1234.5, "$")).toEqual("-$1,234.50");
+        expect(filter.currency(12, "€", 0)).toEqual("€12");
+        expect(filter.currency(undefined)).toEqual("");
+    });
+
+    it("percent", function () {
+        expect(filter.percent(0.256)).toEqual("26%");
+        expect(filter.percent(0.256, 1)).toEqual("25.6%");
+        expect(filter.percent(null)).toEqual("");
+        expect(filter.percent('')).toEqual("");
+    });
+
+    it("bytes", function () {
+        expect(filter.bytes(512)).toEqual("512 B");
+        expect(filter.bytes(1536)).toEqual("1.5 KB");
+        expect(filter.bytes(1024 * 1024 * 5, 0)).toEqual("5 MB");
+    });
+
+    it("fromNow", function () {
+        var now = 1421051645040;
+
+        expect(filter.fromNow(now - 10 * 1000, now)).toEqual("几秒前");
+        expect(filter.fromNow(now - 5 * 60 * 1000, now)).toEqual("5分钟前");
+        expect(filter.fromNow(now + 3 * 24 * 3600 * 1000, now)).toEqual("3天后");
+
+        drunk.Filter.setLocale('en');
+        expect(filter.fromNow(now - 2 * 3600 * 1000, now)).toEqual("2 hours ago");
+        expect(filter.fromNow(now + 60 * 1000, now)).toEqual("in a minute");
+        drunk.Filter.setLocale('zh-CN');
+    });
+
+    describe("collection", function () {
+        var list, map;
+
+        beforeEach(function () {
+            list = [
+                { name: 'Tom', age: 20, team: { name: 'red' } },
+                { name: 'Jerry', age: 18, team: { name: 'blue' } },
+                { name: 'Tommy', age: 20, team: { name: 'blue' } },
+                { name: 'Lily', age: 25, team: { name: 'red' } }
+            ];
+            map = { a: 3, b: 1, c: 2, d: 1 };
+        });
+
+        function names(arr) {
+            return arr.map(function (item) {
+                return item.name;
+            });
+        }
+
+        it("filterBy", function () {
+            expect(names(filter.filterBy(list, 'tom'))).toEqual(['Tom', 'Tommy']);
+            expect(names(filter.filterBy(list, 'blue', 'team.name'))).toEqual(['Jerry', 'Tommy']);
+            expect(names(filter.filterBy(list, { age: 20, name: 'my' }))).toEqual(['Tommy']);
+            expect(names(filter.filterBy(list, function (item, index) {
+                return index > 2;
+            }))).toEqual(['Lily']);
+            expect(filter.filterBy(list, '')).toBe(list);
+
+            expect(filter.filterBy(map, function (value) {
+                return value > 1;
+            })).toEqual({ a: 3, c: 2 });
+        });
+
+        it("orderBy", function () {
+            expect(names(filter.orderBy(list, 'age'))).toEqual(['Jerry', 'Tom', 'Tommy', 'Lily']);
+            expect(names(filter.orderBy(list, ['-age', '-name']))).toEqual(['Lily', 'Tommy', 'Tom', 'Jerry']);
+            expect(names(filter.orderBy(list, ['team.name', 'name'], true))).toEqual(['Tom', 'Lily', 'Tommy', 'Jerry']);
+            expect(filter.orderBy([3, 1, 2])).toEqual([1, 2, 3]);
+            expect(filter.orderBy([3, 1, 2], '-')).toEqual([3, 2, 1]);
+            expect(filter.orderBy([3, null, 1, undefined, 2])).toEqual([1, 2, 3, null, undefined]);
+            expect(filter.orderBy([3, null, 1, 2], '-')).toEqual([3, 2, 1, null]);
+            expect(filter.orderBy([3, null, 1, 2], null, true)).toEqual([3, 2, 1, null]);
+
+            var sorted = filter.orderBy(map);
+            expect(Object.keys(sorted)).toEqual(['b', 'd', 'c', 'a']);
+
+            // 不修改原数组
+            expect(names(list)).toEqual(['Tom', 'Jerry', 'Tommy', 'Lily']);
+        });
+
+        it("limitTo", function () {
+            expect(filter.limitTo([1, 2, 3, 4, 5], 2)).toEqual([1, 2]);
+            expect(filter.limitTo([1, 2, 3, 4, 5], 2, 1)).toEqual([2, 3]);
+            expect(filter.limitTo([1, 2, 3, 4, 5], -2)).toEqual([4, 5]);
+            expect(filter.limitTo("abcdef", 3)).toEqual("abc");
+            expect(filter.limitTo(map, 2)).toEqual({ a: 3, b: 1 });
+        });
+
+        it("unique", function () {
+            expect(filter.unique([1, 2, 1, 3, 2])).toEqual([1, 2, 3]);
+            expect(names(filter.unique(list, 'age'))).toEqual(['Tom', 'Jerry', 'Lily']);
+            expect(filter.unique(map)).toEqual({ a: 3, b: 1, c: 2 });
+        });
+
+        it("groupBy", function () {
+            var groups = filter.groupBy(list, 'team.name');
+
+            expect(Object.keys(groups)).toEqual(['red', 'blue']);
+            expect(names(groups.red)).toEqual(['Tom', 'Lily']);
+            expect(names(groups.blue)).toEqual(['Jerry', 'Tommy']);
+
+            expect(filter.groupBy(map, function (value) {
+                return value > 1 ? 'big' : 'small';
+            })).toEqual({ big: { a: 3, c: 2 }, small: { b: 1, d: 1 } });
+        });
+
+        it("work with repeat item list", function () {
+            var items = drunk.RepeatItem.toList(filter.orderBy(map));
+
+            expect(items.map(function (item) {
+                return item.key;
+            })).toEqual(['b', 'd', 'c', 'a']);
+        });
+    });
+
+    it("register", function () {
+        spyOn(console, 'warn');
+
+        drunk.Filter.register('reverseString', function (input) {
+            return input.split('').reverse().join('');
+        });
+
+        expect(new drunk.ViewModel({ a: 'abc' }).$eval('a|reverseString')).toBe('cba');
+        expect(console.warn).not.toHaveBeenCalled();
+
+        drunk.Filter.register('reverseString', function (input) {
+            return input;
+        });
+        expect(console.warn).toHaveBeenCalled();
+
+        delete drunk.Filter.filters.reverseString;
+    });
+
+    it("custom locale", function () {
+        drunk.Filter.setLocale('de', { decimal: ',', thousands: '.', currency: '€', currencyFormat: '%n %s' });
+
+        expect(filter.number(1234.5, 2)).toEqual("1.234,50");
+        expect(filter.currency(1234.5)).toEqual("1.234,50 €");
+
+        drunk.Filter.setLocale('zh-CN');
+
+        expect(function () {
+            drunk.Filter.setLocale('not-exist');
+        }).toThrow();
     });
 });
 
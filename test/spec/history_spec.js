@@ -0,0 +1,183 @@
+/// <reference path="../../build/drunk.d.ts" />
+/// <reference path="../jasmine.d.ts" />
+
+describe("History", function () {
+
+    var data, history;
+
+    beforeEach(function () {
+        data = {
+            name: 'a',
+            info: { age: 1 },
+            list: [1, 2]
+        };
+        drunk.observable.create(data);
+        history = new drunk.History(data);
+    });
+
+    afterEach(function () {
+        history.dispose();
+    });
+
+    it("undo and redo property changes", function () {
+        expect(history.canUndo).toBe(false);
+
+        data.name = 'b';
+        data.info.age = 2;
+        data.$set('extra', true);
+        data.info.$remove('age');
+
+        expect(history.canUndo).toBe(true);
+
+        history.undo();
+        expect(data.info.age).toBe(2);
+
+        history.undo();
+        expect(data.hasOwnProperty('extra')).toBe(false);
+
+        history.undo();
+        history.undo();
+        expect(data.name).toBe('a');
+        expect(data.info.age).toBe(1);
+        expect(history.canUndo).toBe(false);
+        expect(history.canRedo).toBe(true);
+
+        history.redo();
+        history.redo();
+        history.redo();
+        expect(data.name).toBe('b');
+        expect(data.info.age).toBe(2);
+        expect(data.extra).toBe(true);
+
+        data.name = 'c';
+        expect(history.canRedo).toBe(false);
+    });
+
+    it("undo and redo array changes", function () {
+        data.list.push(3);
+        data.list.$setAt(0, 0);
+        data.list.$removeAt(1);
+        data.list.reverse();
+
+        expect(data.list).toEqual([3, 0]);
+
+        history.undo();
+        expect(data.list).toEqual([0, 3]);
+        history.undo();
+        expect(data.list).toEqual([0, 2, 3]);
+        history.undo();
+        history.undo();
+        expect(data.list).toEqual([1, 2]);
+
+        history.redo();
+        history.redo();
+        expect(data.list).toEqual([0, 2, 3]);
+    });
+
+    it("record changes of new values", function () {
+        data.info = { age: 10 };
+        data.info.age = 11;
+        data.list.push({ id: 1 });
+        data.list[2].id = 2;
+
+        history.undo();
+        expect(data.list[2].id).toBe(1);
+        history.undo();
+        history.undo();
+        expect(data.info.age).toBe(10);
+        history.undo();
+        expect(data.info.age).toBe(1);
+    });
+
+    it("ignore changes of removed values", function () {
+        var info = data.info;
+        var item = { id: 1 };
+
+        data.list.push(item);
+        data.list.pop();
+        data.info = { age: 10 };
+
+        info.age = 2;
+        item.id = 2;
+
+        history.undo();
+        expect(data.info).toBe(info);
+        history.undo();
+        expect(data.list[2]).toBe(item);
+
+        item.id = 3;
+        history.undo();
+        expect(item.id).toBe(2);
+        expect(data.list).toEqual([1, 2, { id: 2 }]);
+    });
+
+    it("record $setAt beyond the length as one step", function () {
+        data.list.$setAt(4, 5);
+        expect(data.list).toEqual([1, 2, undefined, undefined, 5]);
+
+        history.undo();
+        expect(data.list).toEqual([1, 2]);
+        expect(history.canUndo).toBe(false);
+    });
+
+    it("group changes in transaction", function () {
+        history.transaction(function () {
+            data.name = 'b';
+            history.transaction(function () {
+                data.list.push(3);
+            });
+            data.info.age = 2;
+        });
+
+        history.undo();
+
+        expect(data.name).toBe('a');
+        expect(data.list).toEqual([1, 2]);
+        expect(data.info.age).toBe(1);
+        expect(history.canUndo).toBe(false);
+
+        history.redo();
+
+        expect(data.name).toBe('b');
+        expect(data.list).toEqual([1, 2, 3]);
+        expect(data.info.age).toBe(2);
+    });
+
+    it("flush watchers once", function () {
+        var vm = new drunk.ViewModel({ a: 1, b: 2 });
+        var spy = jasmine.createSpy();
+        var vmHistory = new drunk.History(vm._model);
+
+        drunk.config.renderOptimization = false;
+
+        vm.$watch('a + b', spy);
+        vmHistory.transaction(function () {
+            vm.a = 2;
+            vm.b = 3;
+        });
+        spy.calls.reset();
+        vmHistory.undo();
+
+        drunk.config.renderOptimization = true;
+
+        expect(spy.calls.count()).toBe(1);
+        expect(spy).toHaveBeenCalledWith(3, 5);
+        vmHistory.dispose();
+    });
+
+    it("keep at most capacity steps", function () {
+        var limited = new drunk.History(data, 2);
+
+        data.name = 'b';
+        data.name = 'c';
+        data.name = 'd';
+
+        limited.undo();
+        limited.undo();
+
+        expect(data.name).toBe('b');
+        expect(limited.canUndo).toBe(false);
+
+        limited.dispose();
+    });
+});
@@ -216,4 +216,374 @@ describe("observable", function () {
 
         expect(arr).toEqual([1, 3, 4, 454, 22, 0]);
     });
+
+    it("ObservableArray change records", function () {
+        var arr = [1, 2, 3];
+        var ob = observable.create(arr);
+        var changes = [];
+
+        ob.addArrayChangedCallback(function (change) {
+            changes.push(change);
+        });
+
+        arr.push(4, 5);
+        arr.splice(1, 2, 'a');
+        arr.pop();
+        arr.shift();
+        arr.$removeAt(1);
+        arr.$setAt(2, 'b');
+
+        expect(arr).toEqual(['a', undefined, 'b']);
+        expect(changes).toEqual([
+            { index: 3, removed: [], added: [4, 5] },
+            { index: 1, removed: [2, 3], added: ['a'] },
+            { index: 3, removed: [5], added: [] },
+            { index: 0, removed: [1], added: [] },
+            { index: 1, removed: [4], added: [] },
+            { index: 1, removed: [], added: [undefined, 'b'] }
+        ]);
+
+        changes.length = 0;
+        arr.pop();
+        arr.pop();
+        arr.pop();
+        arr.pop();
+
+        expect(changes.length).toBe(3);
+    });
+
+    it("create observable map and set", function () {
+        var map = new Map([['a', { b: 1 }]]);
+        var set = new Set([1, 2]);
+
+        observable.create(map);
+        observable.create(set);
+
+        expect(map.__proto__).toBe(observable.ObservableMapPrototype);
+        expect(set.__proto__).toBe(observable.ObservableSetPrototype);
+        expect(map instanceof Map).toBe(true);
+        expect(map.get('a').__observer__).toBeDefined();
+        expect(map.size).toBe(1);
+        expect(set.size).toBe(2);
+    });
+
+    it("ObservableMap track and notify", function () {
+        var map = new Map();
+        var accessed = [];
+        var ob = observable.create(map);
+        var spy = jasmine.createSpy();
+        var keySpy = jasmine.createSpy();
+
+        observable.onPropertyAccessing = function (observer, property) {
+            accessed.push(property);
+        };
+        map.get('a');
+        map.has(1);
+        map.size;
+        map.forEach(function () {});
+        observable.onPropertyAccessing = null;
+
+        expect(accessed).toEqual(['string:a', 'number:1', '__iterate__', '__iterate__']);
+
+        ob.addPropertyChangedCallback(spy);
+        ob.$addListener('string:a', keySpy);
+
+        map.set('a', 1);
+        expect(spy.calls.count()).toBe(1);
+        expect(keySpy.calls.count()).toBe(1);
+
+        map.set('a', 1);
+        expect(spy.calls.count()).toBe(1);
+
+        map.set('b', 2);
+        expect(spy.calls.count()).toBe(2);
+        expect(keySpy.calls.count()).toBe(1);
+
+        map.delete('a');
+        map.delete('c');
+        expect(spy.calls.count()).toBe(3);
+        expect(keySpy.calls.count()).toBe(2);
+
+        map.clear();
+        expect(spy.calls.count()).toBe(4);
+        expect(map.size).toBe(0);
+    });
+
+    it("ObservableSet track and notify", function () {
+        var set = new Set();
+        var ob = observable.create(set);
+        var spy = jasmine.createSpy();
+
+        ob.addPropertyChangedCallback(spy);
+
+        set.add(1);
+        set.add(1);
+        expect(spy.calls.count()).toBe(1);
+
+        set.delete(1);
+        expect(spy.calls.count()).toBe(2);
+        expect(set.has(1)).toBe(false);
+    });
+
+    describe("readonly and toRaw", function () {
+        var data, view;
+
+        beforeEach(function () {
+            data = { a: 1, b: { c: 2 }, list: [{ d: 3 }] };
+            view = observable.readonly(data);
+        });
+
+        it("track dependencies", function () {
+            var accessed = [];
+
+            observable.onPropertyAccessing = function (observer, property) {
+                accessed.push(property);
+            };
+            expect(view.b.c).toBe(2);
+            observable.onPropertyAccessing = null;
+
+            expect(accessed).toEqual(['b', 'c']);
+            expect(observable.readonly(data)).toBe(view);
+            expect(observable.readonly(view)).toBe(view);
+
+            data.a = 5;
+            expect(view.a).toBe(5);
+        });
+
+        it("throw when write", function () {
+            expect(function () {
+                view.a = 2;
+            }).toThrowError(/a/);
+            expect(function () {
+                view.b.c = 3;
+            }).toThrowError(/c/);
+            expect(function () {
+                view.list.push({});
+            }).toThrowError(/push/);
+            expect(function () {
+                view.list[0].d = 4;
+            }).toThrowError(/d/);
+
+            expect(data.a).toBe(1);
+            expect(data.b.c).toBe(2);
+            expect(data.list.length).toBe(1);
+            expect(data.list[0].d).toBe(3);
+        });
+
+        it("warn in debug mode", function () {
+            spyOn(console, 'warn');
+            drunk.config.debug = true;
+
+            view.a = 2;
+            view.list.pop();
+
+            drunk.config.debug = false;
+
+            expect(console.warn.calls.count()).toBe(2);
+            expect(data.a).toBe(1);
+            expect(data.list.length).toBe(1);
+        });
+
+        it("toRaw", function () {
+            var raw = observable.toRaw(view);
+
+            expect(raw).toEqual({ a: 1, b: { c: 2 }, list: [{ d: 3 }] });
+            expect(raw.b).not.toBe(data.b);
+            expect(raw.__observer__).toBeUndefined();
+            expect(raw.b.__observer__).toBeUndefined();
+            expect(Object.getPrototypeOf(raw.b)).toBe(Object.prototype);
+            expect(Object.getPrototypeOf(raw.list)).toBe(Array.prototype);
+            expect(observable.toRaw(1)).toBe(1);
+        });
+    });
+
+    describe("diff and applyPatch", function () {
+
+        it("diff objects and arrays", function () {
+            var a = { name: 'a', info: { age: 1, 'x/y': 1 }, list: [1, 2, 3], removed: true };
+            var b = { name: 'b', info: { age: 1, 'x/y': 2 }, list: [1, 4, 2, 3], added: { c: 1 } };
+
+            observable.create(a);
+
+            expect(observable.diff(a, b)).toEqual([
+                { op: 'replace', path: '/name', value: 'b' },
+                { op: 'replace', path: '/info/x~1y', value: 2 },
+                { op: 'add', path: '/list/1', value: 4 },
+                { op: 'remove', path: '/removed' },
+                { op: 'add', path: '/added', value: { c: 1 } }
+            ]);
+            expect(observable.diff([1, 2, 3, 4], [1, 4])).toEqual([
+                { op: 'remove', path: '/2' },
+                { op: 'remove', path: '/1' }
+            ]);
+            expect(observable.diff([1, 2, 3], [1, 5, 6, 7])).toEqual([
+                { op: 'replace', path: '/1', value: 5 },
+                { op: 'replace', path: '/2', value: 6 },
+                { op: 'add', path: '/3', value: 7 }
+            ]);
+            expect(observable.diff(a, observable.toRaw(a))).toEqual([]);
+        });
+
+        it("apply diff result", function () {
+            var a = { list: [{ id: 1 }, { id: 2 }, { id: 3 }], info: { tags: ['x'] } };
+            var b = { list: [{ id: 3 }, { id: 2, name: 'b' }], info: { tags: ['y', 'x'] }, extra: null };
+
+            observable.applyPatch(a, observable.diff(a, b));
+
+            expect(a).toEqual(b);
+            expect(observable.diff(a, b)).toEqual([]);
+        });
+
+        it("apply patch through observable methods", function () {
+            var data = { a: 1, b: { c: 2 }, list: [1, 2] };
+            var ob = observable.create(data);
+            var changes = [];
+
+            ob.addObjectChangedCallback(function (change) {
+                changes.push(change.type + ':' + change.name);
+            });
+            data.list.__observer__.addArrayChangedCallback(function (change) {
+                changes.push('splice:' + change.index);
+            });
+
+            var result = observable.applyPatch(data, [
+                { op: 'test', path: '/a', value: 1 },
+                { op: 'add', path: '/d', value: 4 },
+                { op: 'replace', path: '/a', value: 10 },
+                { op: 'add', path: '/list/-', value: 3 },
+                { op: 'remove', path: '/list/0' },
+                { op: 'copy', from: '/b', path: '/e' },
+                { op: 'move', from: '/b/c', path: '/list/0' },
+                { op: 'remove', path: '/d' }
+            ]);
+
+            expect(result).toBe(data);
+            expect(observable.toRaw(data)).toEqual({ a: 10, b: {}, list: [2, 2, 3], e: { c: 2 } });
+            expect(data.e).not.toBe(data.b);
+            expect(changes).toEqual(['add:d', 'update:a', 'splice:2', 'splice:0', 'add:e', 'splice:0', 'delete:d']);
+        });
+
+        it("throw when patch is invalid", function () {
+            var data = { a: 1, list: [] };
+
+            expect(function () {
+                observable.applyPatch(data, [{ op: 'test', path: '/a', value: 2 }]);
+            }).toThrowError(/\/a/);
+            expect(function () {
+                observable.applyPatch(data, [{ op: 'remove', path: '/b' }]);
+            }).toThrowError(/\/b/);
+            expect(function () {
+                observable.applyPatch(data, [{ op: 'add', path: '/list/1', value: 1 }]);
+            }).toThrowError(/\/list\/1/);
+            expect(function () {
+                observable.applyPatch(data, [{ op: 'move', from: '/list', path: '/list/0' }]);
+            }).toThrow();
+            expect(observable.applyPatch(data, [{ op: 'replace', path: '', value: 1 }])).toBe(1);
+        });
+    });
+
+    describe("proxy mode", function () {
+
+        beforeEach(function () {
+            drunk.config.proxy = true;
+        });
+
+        afterEach(function () {
+            drunk.config.proxy = false;
+        });
+
+        it("create proxy", function () {
+            var raw = { a: { b: 1 }, list: [{ c: 2 }] };
+            var data = observable.reactive(raw);
+
+            expect(data).not.toBe(raw);
+            expect(observable.reactive(raw)).toBe(data);
+            expect(observable.reactive(data)).toBe(data);
+            expect(data.__observer__).toBe(raw.__observer__);
+            expect(data.a.__observer__).toBeDefined();
+            expect(data.list[0].__observer__).toBeDefined();
+            expect(Object.getOwnPropertyDescriptor(raw, 'a').get).toBeUndefined();
+        });
+
+        it("track property access", function () {
+            var data = observable.reactive({ a: 1 });
+            var accessed = [];
+
+            observable.onPropertyAccessing = function (observer, property) {
+                accessed.push(property);
+            };
+            data.a;
+            data.notExist;
+            data.hasOwnProperty('a');
+            observable.onPropertyAccessing = null;
+
+            expect(accessed).toEqual(['a', 'notExist']);
+        });
+
+        it("notify when add, set and delete property", function () {
+            var data = observable.reactive({ a: 1, child: {} });
+            var ob = data.__observer__;
+            var spy = jasmine.createSpy('a');
+            var notifySpy = jasmine.createSpy('notify');
+
+            ob.$addListener('a', spy);
+            ob.$addListener('child', spy);
+            ob.addPropertyChangedCallback(notifySpy);
+
+            data.a = 1;
+            expect(spy).not.toHaveBeenCalled();
+
+            data.a = 2;
+            expect(spy.calls.count()).toBe(1);
+            expect(notifySpy).not.toHaveBeenCalled();
+
+            data.b = 3;
+            expect(notifySpy.calls.count()).toBe(1);
+
+            delete data.a;
+            expect(spy.calls.count()).toBe(2);
+            expect(notifySpy.calls.count()).toBe(2);
+
+            // 子对象新增字段时通知父对象的字段更新
+            data.child.d = 4;
+            expect(spy.calls.count()).toBe(3);
+        });
+
+        it("array item assignment", function () {
+            var data = observable.reactive({ list: [1, 2] });
+            var spy = jasmine.createSpy();
+
+            data.list.__observer__.addPropertyChangedCallback(spy);
+
+            data.list[2] = { e: 1 };
+            expect(spy.calls.count()).toBe(1);
+            expect(data.list[2].__observer__).toBeDefined();
+
+            data.list.push(3);
+            expect(spy.calls.count()).toBe(2);
+            expect(data.list.length).toBe(4);
+
+            data.list.length = 0;
+            expect(spy.calls.count()).toBe(3);
+        });
+
+        it("watch new property without $set", function (done) {
+            var vm = new drunk.ViewModel({ obj: {} });
+            var spy = jasmine.createSpy();
+
+            vm.$watch('obj.name', spy);
+            vm.obj.name = 'drunk';
+
+            drunk.util.requestAnimationFrame(function () {
+                expect(spy).toHaveBeenCalledWith('drunk', undefined);
+
+                delete vm.obj.name;
+
+                drunk.util.requestAnimationFrame(function () {
+                    expect(spy).toHaveBeenCalledWith(undefined, 'drunk');
+                    done();
+                });
+            });
+        });
+    });
 });
\ No newline at end of file
@@ -216,4 +216,204 @@ describe("parser", function () {
             expect(viewModel.a).toBe(4);
         });
     });
+
+    describe("csp mode", function () {
+
+        var cspMode = drunk.config.csp;
+
+        beforeEach(function () {
+            drunk.config.csp = true;
+            viewModel = new drunk.ViewModel({
+                a: 1,
+                b: {
+                    c: 2
+                },
+                list: [1, 2, 3],
+                key: 'c'
+            });
+            viewModel.$filter.add = function (a, b) {
+                return a + b;
+            };
+        });
+
+        afterEach(function () {
+            drunk.config.csp = cspMode;
+        });
+
+        it("getter", function () {
+            var testCases = [{
+                expression : "b [ key ] + 1",
+                expected   : 3
+            }, {
+                expression : "list.length > 2 ? 'yes' : \"no\"",
+                expected   : 'yes'
+            }, {
+                expression : "{ first: list[0], 'sum': a + b.c * 2 }",
+                expected   : { first: 1, sum: 5 }
+            }, {
+                expression : "!a || typeof b.c === 'number'",
+                expected   : true
+            }, {
+                expression : "list.indexOf(2) + 0.5",
+                expected   : 1.5
+            }, {
+                expression : "a.not.exists",
+                expected   : undefined
+            }];
+
+            testCases.forEach(function (test) {
+                var getter = Parser.parseGetter(test.expression);
+                expect(getter.dynamic).toBe(true);
+                expect(getter.call(viewModel)).toEqual(test.expected);
+            });
+
+            expect(Parser.parseGetter("'static' + 1").dynamic).toBe(false);
+        });
+
+        it("cache functions by mode", function () {
+            drunk.config.csp = false;
+            var normalGetter = Parser.parseGetter("a + b.c");
+
+            drunk.config.csp = true;
+            var cspGetter = Parser.parseGetter("a + b.c");
+
+            expect(cspGetter).not.toBe(normalGetter);
+            expect(Parser.parseGetter("a + b.c")).toBe(cspGetter);
+            expect(cspGetter.call(viewModel)).toBe(3);
+            expect(normalGetter.call(viewModel)).toBe(3);
+        });
+
+        it("getter with filters", function () {
+            var getter = Parser.parseGetter("b.c |add:a + 1");
+            var value = getter.call(viewModel);
+
+            expect(value).toBe(2);
+            expect(drunk.Filter.pipeFor(value, getter.filters, viewModel.$filter, false, viewModel)).toBe(4);
+        });
+
+        it("setter", function () {
+            Parser.parseSetter("b[key]").call(viewModel, 10);
+            expect(viewModel.b.c).toBe(10);
+
+            Parser.parseSetter("newProp").call(viewModel, 'abc');
+            expect(viewModel.newProp).toBe('abc');
+        });
+
+        it("statement", function () {
+            var $event = {};
+            var $el = {};
+
+            viewModel.test = jasmine.createSpy();
+            Parser.parse("test($el, $event, a)").call(viewModel, $event, $el);
+            expect(viewModel.test).toHaveBeenCalledWith($el, $event, 1);
+
+            Parser.parse("a += 2, ++a, b.c--").call(viewModel);
+            expect(viewModel.a).toBe(4);
+            expect(viewModel.b.c).toBe(1);
+        });
+
+        it("interpolate", function () {
+            var getter = Parser.parseInterpolate("sum: {{ a + b.c }}!");
+            expect(getter.call(viewModel)).toEqual(['sum: ', 3, '!']);
+        });
+
+        it("throw on syntax error", function () {
+            expect(function () {
+                Parser.parseGetter("a + ");
+            }).toThrow();
+            expect(function () {
+                Parser.parseGetter("a # b");
+            }).toThrow();
+        });
+    });
+
+    describe("validate", function () {
+
+        it("valid expressions", function () {
+            expect(Parser.validate("a.b[c] + fn(1, 'x')").valid).toBe(true);
+            expect(Parser.validate("list | filterBy:keyword, 'name' | size").valid).toBe(true);
+            expect(Parser.validate("a | 0").valid).toBe(true);
+            expect(Parser.validate("name: {{ user.name | escape }}").valid).toBe(true);
+        });
+
+        it("report the offending offset", function () {
+            var result = Parser.validate("a + * b");
+
+            expect(result.valid).toBe(false);
+            expect(result.expression).toBe("a + * b");
+            expect(result.index).toBe(4);
+            expect(typeof result.message).toBe("string");
+
+            expect(Parser.validate("a.b[c").index).toBe(5);
+            expect(Parser.validate("'unclosed").index).toBe(0);
+        });
+
+        it("report the offset in the whole interpolate string", function () {
+            var result = Parser.validate("a {{ ok }} b {{ x ) }}");
+
+            expect(result.valid).toBe(false);
+            expect(result.index).toBe(18);
+            expect(Parser.validate("{{ a }}", false).valid).toBe(false);
+        });
+    });
+
+    describe("parseAST", function () {
+
+        it("member access and calls", function () {
+            var ast = Parser.parseAST("user.name + format(list[0], 'x')");
+
+            expect(ast.type).toBe("BinaryExpression");
+            expect(ast.operator).toBe("+");
+            expect(ast.left.type).toBe("MemberExpression");
+            expect(ast.left.object.name).toBe("user");
+            expect(ast.left.property.value).toBe("name");
+            expect(ast.left.computed).toBe(false);
+            expect(ast.right.type).toBe("CallExpression");
+            expect(ast.right.callee.name).toBe("format");
+            expect(ast.right.arguments[0].computed).toBe(true);
+            expect(ast.right.arguments[1].value).toBe("x");
+            expect(ast.start).toBe(0);
+            expect(ast.right.start).toBe(12);
+        });
+
+        it("filters with arguments", function () {
+            var ast = Parser.parseAST("price | currency:'$', 2 | log");
+
+            expect(ast.type).toBe("FilterExpression");
+            expect(ast.input.name).toBe("price");
+            expect(ast.filters.length).toBe(2);
+            expect(ast.filters[0].name).toBe("currency");
+            expect(ast.filters[0].arguments.map(function (arg) {
+                return arg.value;
+            })).toEqual(['$', 2]);
+            expect(ast.filters[1].arguments.length).toBe(0);
+
+            expect(Parser.parseAST("a | 1").type).toBe("BinaryExpression");
+            expect(Parser.parseAST("a | b", true).type).toBe("BinaryExpression");
+        });
+
+        it("reuse cached tree", function () {
+            expect(Parser.parseAST("a.b.c")).toBe(Parser.parseAST("a.b.c"));
+        });
+
+        it("collect identifiers", function () {
+            var ast = Parser.parseAST("a.b + c[d] + method(e, $event) | add:f");
+            var filters = [];
+
+            expect(Parser.getIdentifiers(ast)).toEqual(['a', 'c', 'd', 'e', 'f']);
+
+            Parser.traverse(ast, function (node) {
+                if (node.type === 'Filter') {
+                    filters.push(node.name);
+                }
+            });
+            expect(filters).toEqual(['add']);
+        });
+
+        it("throw on syntax error", function () {
+            expect(function () {
+                Parser.parseAST("a.");
+            }).toThrowError(SyntaxError);
+        });
+    });
 });
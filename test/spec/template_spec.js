@@ -130,6 +130,16 @@ describe("Template", function () {
             expect(vm._bindings.length).toBe(0);
         });
 
+        it("throw when binding expression has syntax error", function () {
+            var element = dom.create("<div drunk-class='a +'></div>");
+
+            spyOn(console, 'error');
+            expect(function () {
+                compile(element);
+            }).toThrowError(SyntaxError, /3/);
+            expect(console.error).toHaveBeenCalledWith(jasmine.any(String), element);
+        });
+
         it("release multiple if binings", function (done) {
             var element = dom.create([
                 "<div><div drunk-if='a' drunk-class='a'>{{a}}</div>",
@@ -58,6 +58,32 @@ describe("ViewModel", function () {
         expect(val).toBe(125);
     });
 
+    it("set value with two-way filters", function () {
+        vm.$filter.price = {
+            read: function (input, digits) {
+                return '$' + input.toFixed(digits);
+            },
+            write: function (input) {
+                return parseFloat(input.replace('$', ''));
+            }
+        };
+        vm.$filter.times = {
+            write: function (input, n) {
+                return input * n;
+            }
+        };
+
+        expect(vm.$eval("a|price:2")).toBe('$123.00');
+        expect(vm.$eval("a|times:2")).toBe(123);
+
+        vm.$setValue("a|add:1|price:2", '$45.60');
+        expect(vm.a).toBe(45.6);
+
+        // write按相反的顺序调用
+        vm.$setValue("a|times:2|price:1", '$4.5');
+        expect(vm.a).toBe(9);
+    });
+
     it("parse interpolate expression", function () {
         var val = vm.$eval("{{a|add:2}}", true);
 
@@ -177,6 +203,245 @@ describe("ViewModel", function () {
         })
     });
 
+    it('computed property caches its value until dependencies change', function () {
+        var getter = jasmine.createSpy('getter').and.callFake(function () {
+            return this.firstname + ' ' + this.lastname;
+        });
+
+        vm.$proxy('firstname');
+        vm.$proxy('lastname');
+        vm.firstname = 'Jim';
+        vm.lastname = 'Green';
+        vm.$computed('fullname', getter);
+
+        expect(vm.fullname).toBe('Jim Green');
+        expect(vm.fullname).toBe('Jim Green');
+        expect(getter.calls.count()).toBe(1);
+
+        vm.a = 1;
+        expect(vm.fullname).toBe('Jim Green');
+        expect(getter.calls.count()).toBe(1);
+
+        vm.lastname = 'Brown';
+        expect(vm.fullname).toBe('Jim Brown');
+        expect(getter.calls.count()).toBe(2);
+    });
+
+    it('computed property without cache', function () {
+        var count = 0;
+
+        vm.$computed('counter', {
+            get: function () {
+                return ++count;
+            },
+            cache: false
+        });
+
+        expect(vm.counter).toBe(1);
+        expect(vm.counter).toBe(2);
+        expect(vm._computedCaches.counter).toBeFalsy();
+    });
+
+    it('computed property reading non-reactive state needs cache: false', function () {
+        var external = 1;
+        var getter = function () {
+            return external;
+        };
+
+        vm.$computed('cached', getter);
+        vm.$computed('uncached', { get: getter, cache: false });
+
+        expect(vm.cached).toBe(1);
+        expect(vm.uncached).toBe(1);
+
+        external = 2;
+
+        // 默认缓存,不是observable的数据改变后仍然返回旧的值
+        expect(vm.cached).toBe(1);
+        expect(vm.uncached).toBe(2);
+    });
+
+    it('define computed property after release', function () {
+        vm.$release();
+
+        expect(function () {
+            vm.$computed('double', function () {
+                return 2;
+            });
+        }).not.toThrow();
+        expect(vm.double).toBe(2);
+        expect(vm.$getComputedDependencies('double')).toEqual([]);
+    });
+
+    it('watch a computed property depends on another computed property', function () {
+        var spy = jasmine.createSpy();
+
+        vm.$proxy('list');
+        vm.list = [1, 2, 3];
+        vm.$computed('evens', function () {
+            return this.list.filter(function (n) { return n % 2 === 0; });
+        });
+        vm.$computed('evenCount', function () {
+            return this.evens.length;
+        });
+        vm.$watch('evenCount', spy);
+
+        vm.list.push(4);
+        drunk.flushSync();
+
+        expect(spy).toHaveBeenCalledWith(2, 1);
+        expect(vm.$getComputedDependencies('evenCount')).toEqual(['evens']);
+        expect(vm.$getComputedDependencies().evens).toContain('list');
+    });
+
+    it("watch with array changes", function (done) {
+        var spy = jasmine.createSpy();
+        var listener = jasmine.createSpy();
+        var model = new drunk.ViewModel({ list: [1, 2] });
+        var list = model.list;
+        var unwatch = model.$watch('list', spy, { deep: true, changes: listener });
+
+        list.push(3);
+
+        drunk.util.requestAnimationFrame(function () {
+            expect(listener).toHaveBeenCalledWith([{ index: 2, removed: [], added: [3] }], list);
+            expect(spy).toHaveBeenCalledWith(list, list);
+
+            unwatch();
+            expect(list.__observer__._arrayChangedCallbackList).toBeFalsy();
+            done();
+        });
+    });
+
+    it("watch a function", function () {
+        var spy = jasmine.createSpy();
+
+        vm.$proxy('b');
+        vm.b = 1;
+        vm.$watch(function () {
+            return this.a + this.b;
+        }, spy);
+
+        vm.b = 2;
+        drunk.flushSync();
+
+        expect(spy).toHaveBeenCalledWith(125, 124);
+    });
+
+    it("watch an array of expressions", function () {
+        var spy = jasmine.createSpy();
+
+        vm.b = 1;
+        vm.$watch(['a', 'b | add:1'], spy);
+
+        vm.a = 1;
+        vm.b = 2;
+        drunk.flushSync();
+
+        expect(spy.calls.count()).toBe(1);
+        expect(spy).toHaveBeenCalledWith([1, 3], [123, 2]);
+    });
+
+    it("watch an array of expressions with unchanged objects", function () {
+        var spy = jasmine.createSpy();
+
+        vm.$proxy('obj');
+        vm.obj = { x: 1 };
+        vm.$watch(['a > 0', 'obj'], spy);
+
+        vm.a = 5;
+        drunk.flushSync();
+
+        expect(spy).not.toHaveBeenCalled();
+
+        vm.obj = { x: 2 };
+        drunk.flushSync();
+
+        expect(spy).toHaveBeenCalledWith([true, vm.obj], [true, { x: 1 }]);
+    });
+
+    it("watch with options", function () {
+        var spy = jasmine.createSpy();
+        var unwatch = vm.$watch('a', spy, { immediate: true });
+
+        expect(spy).toHaveBeenCalledWith(123, undefined);
+
+        unwatch();
+        vm.a = 1;
+        drunk.flushSync();
+
+        expect(spy.calls.count()).toBe(1);
+        expect(vm._watchers.a).toBeFalsy();
+    });
+
+    it("watch once", function () {
+        var spy = jasmine.createSpy();
+
+        vm.$watch('a', spy, { once: true });
+
+        vm.a = 1;
+        drunk.flushSync();
+        vm.a = 2;
+        drunk.flushSync();
+
+        expect(spy.calls.count()).toBe(1);
+        expect(spy).toHaveBeenCalledWith(1, 123);
+    });
+
+    it("watch with debounce", function (done) {
+        var spy = jasmine.createSpy();
+
+        vm.$watch('a', spy, { debounce: 20 });
+
+        vm.a = 1;
+        drunk.flushSync();
+        vm.a = 2;
+        drunk.flushSync();
+
+        expect(spy).not.toHaveBeenCalled();
+
+        setTimeout(function () {
+            expect(spy.calls.count()).toBe(1);
+            expect(spy).toHaveBeenCalledWith(2, 123);
+            done();
+        }, 60);
+    });
+
+    it("watch with throttle", function (done) {
+        var spy = jasmine.createSpy();
+
+        vm.$watch('a', spy, { throttle: 30 });
+
+        vm.a = 1;
+        drunk.flushSync();
+        vm.a = 2;
+        drunk.flushSync();
+        vm.a = 3;
+        drunk.flushSync();
+
+        expect(spy.calls.count()).toBe(1);
+        expect(spy).toHaveBeenCalledWith(1, 123);
+
+        setTimeout(function () {
+            expect(spy.calls.count()).toBe(2);
+            expect(spy).toHaveBeenCalledWith(3, 1);
+            done();
+        }, 80);
+    });
+
+    it("get dependencies of an expression", function () {
+        vm.$proxy('b');
+        vm.b = { c: 1 };
+
+        expect(vm.$dependencies('a + b.c').map(function (dep) {
+            return dep.path;
+        })).toEqual(['a', 'b', 'b.c']);
+        expect(vm._watchers['a + b.c']).toBeFalsy();
+
+        vm.$watch('b.c', function () { });
+        expect(vm.$dependencies('b.c').length).toBe(2);
+    });
+
     it("release", function () {
         vm.$proxy('b');
         vm.b = 1;
@@ -308,6 +308,400 @@ describe("Watcher", function () {
         });
     });
 
+    it("expression with async filter", function (done) {
+        var resolvers = [];
+        viewModel.$filter.delay = function (input) {
+            return new drunk.Promise(function (resolve) {
+                resolvers.push(function () {
+                    resolve(input);
+                });
+            });
+        };
+
+        var watcher = new drunk.Watcher(viewModel, "b.c|delay|add:1");
+        watcher.addAction(spy);
+
+        expect(watcher.value).toBeUndefined();
+
+        resolvers[0]();
+        expect(watcher.value).toBe(3);
+        expect(spy).toHaveBeenCalledWith(3, undefined);
+
+        viewModel.b.c = 5;
+
+        requestAnimFrame(function () {
+            // 未resolve之前保留旧的值
+            expect(watcher.value).toBe(3);
+
+            resolvers[1]();
+            expect(watcher.value).toBe(6);
+            expect(spy).toHaveBeenCalledWith(6, 3);
+
+            done();
+        });
+    });
+
+    it("ignore stale result of async filter", function (done) {
+        var resolvers = [];
+        viewModel.$filter.delay = function (input) {
+            return new drunk.Promise(function (resolve) {
+                resolvers.push(function () {
+                    resolve(input);
+                });
+            });
+        };
+
+        var watcher = new drunk.Watcher(viewModel, "a|delay");
+        watcher.addAction(spy);
+
+        viewModel.a = 2;
+
+        requestAnimFrame(function () {
+            expect(resolvers.length).toBe(2);
+
+            resolvers[1]();
+            resolvers[0]();
+
+            expect(watcher.value).toBe(2);
+            expect(spy.calls.count()).toBe(1);
+            expect(spy).toHaveBeenCalledWith(2, undefined);
+
+            done();
+        });
+    });
+
+    it("interpolate expression with async filter", function () {
+        viewModel.$filter.async = function (input) {
+            return drunk.Promise.resolve(input);
+        };
+
+        var watcher = new drunk.Watcher(viewModel, "{{a|async}}-{{c}}");
+
+        expect(watcher.value).toBe('1-c');
+    });
+
+    it("clear property accessing callback when the getter throws", function () {
+        expect(function () {
+            new drunk.Watcher(viewModel, function () {
+                return this.a + this.b.notExists.c;
+            });
+        }).toThrow();
+
+        expect(drunk.observable.onPropertyAccessing).toBeFalsy();
+    });
+
+    it("watch map value", function (done) {
+        viewModel.m = new Map([['k', 1]]);
+
+        var watcher = new drunk.Watcher(viewModel, "m.get('k')");
+        var sizeWatcher = new drunk.Watcher(viewModel, "m.size");
+        var sizeSpy = jasmine.createSpy();
+
+        watcher.addAction(spy);
+        sizeWatcher.addAction(sizeSpy);
+
+        expect(watcher.value).toBe(1);
+        expect(sizeWatcher.value).toBe(1);
+
+        viewModel.m.set('k', 2);
+        viewModel.m.set('j', 3);
+
+        requestAnimFrame(function () {
+            expect(spy).toHaveBeenCalledWith(2, 1);
+            expect(sizeSpy).toHaveBeenCalledWith(2, 1);
+
+            done();
+        });
+    });
+
+    it("deliver array change records", function (done) {
+        viewModel.list = [1, 2];
+
+        var list = viewModel.list;
+        var watcher = new drunk.Watcher(viewModel, "list");
+        var listener = jasmine.createSpy();
+
+        watcher.addAction(spy);
+        watcher.addChangeListener(listener);
+
+        list.push(3);
+        list.shift();
+
+        requestAnimFrame(function () {
+            expect(listener).toHaveBeenCalledWith([
+                { index: 2, removed: [], added: [3] },
+                { index: 0, removed: [1], added: [] }
+            ], list);
+            expect(spy).toHaveBeenCalledWith(list, list);
+
+            listener.calls.reset();
+            viewModel.list = [4];
+
+            requestAnimFrame(function () {
+                expect(listener).not.toHaveBeenCalled();
+
+                viewModel.list.push(5);
+                watcher.removeChangeListener(listener);
+                viewModel.list.push(6);
+
+                requestAnimFrame(function () {
+                    expect(listener).not.toHaveBeenCalled();
+                    expect(viewModel.list.__observer__._arrayChangedCallbackList).toBeFalsy();
+                    done();
+                });
+            });
+        });
+    });
+
+    describe("dependencies", function () {
+
+        afterEach(function () {
+            drunk.config.debug = false;
+        });
+
+        it("get dependencies with property paths", function () {
+            var watcher = new drunk.Watcher(viewModel, "a + b.c");
+            var paths = watcher.getDependencies().map(function (dep) {
+                return dep.path;
+            });
+
+            expect(paths).toEqual(['a', 'b', 'b.c']);
+            expect(watcher.getDependencies()[2].target).toBe(viewModel._model.b);
+
+            watcher.dispose();
+            expect(watcher.getDependencies()).toEqual([]);
+        });
+
+        it("log the property which triggers the flush in debug mode", function () {
+            spyOn(console, 'log');
+            drunk.config.debug = true;
+
+            viewModel.$watch("a + b.c", spy);
+            viewModel.b.c = 3;
+            drunk.flushSync();
+
+            expect(spy).toHaveBeenCalledWith(4, 3);
+            expect(console.log).toHaveBeenCalledWith('[watcher] "a + b.c" 更新,触发的属性: b.c');
+        });
+
+        it("call custom trigger hook in debug mode", function () {
+            var onTrigger = drunk.Watcher.onTrigger;
+            var hook = jasmine.createSpy();
+
+            drunk.Watcher.onTrigger = hook;
+            drunk.config.debug = true;
+
+            var watcher = new drunk.Watcher(viewModel, "a + b.c");
+            watcher.addAction(spy);
+            viewModel.a = 2;
+            viewModel.b.c = 3;
+            viewModel.a = 4;
+            drunk.flushSync();
+
+            drunk.Watcher.onTrigger = onTrigger;
+
+            expect(hook).toHaveBeenCalledWith(watcher, ['a', 'b.c']);
+            expect(spy).toHaveBeenCalledWith(7, 3);
+        });
+    });
+
+    describe("nextTick and flushSync", function () {
+        var spy2;
+
+        beforeEach(function () {
+            spy2 = jasmine.createSpy();
+
+            new drunk.Watcher(viewModel, "a").addAction(function (newValue) {
+                spy(newValue);
+                viewModel.c = 'c' + newValue;
+            });
+            new drunk.Watcher(viewModel, "c").addAction(spy2);
+        });
+
+        it("flushSync", function () {
+            viewModel.a = 2;
+
+            expect(spy).not.toHaveBeenCalled();
+
+            drunk.flushSync();
+
+            expect(spy).toHaveBeenCalledWith(2);
+            expect(spy2).toHaveBeenCalledWith('c2', 'c');
+        });
+
+        it("nextTick", function (done) {
+            viewModel.a = 3;
+
+            drunk.nextTick().then(function () {
+                expect(spy).toHaveBeenCalledWith(3);
+                expect(spy2).toHaveBeenCalledWith('c3', 'c');
+                done();
+            });
+        });
+    });
+
+    describe("flush queue", function () {
+        it("flush in creation order and dedupe", function () {
+            var order = [];
+            var first = new drunk.Watcher(viewModel, "a + 1");
+            var second = new drunk.Watcher(viewModel, "b.c + a");
+
+            second.addAction(function () {
+                order.push('second');
+            });
+            first.addAction(function () {
+                order.push('first');
+            });
+
+            viewModel.b.c = 10;
+            viewModel.a = 2;
+            viewModel.a = 3;
+            drunk.flushSync();
+
+            expect(order).toEqual(['first', 'second']);
+        });
+
+        it("abort cyclic update", function () {
+            var watcher = new drunk.Watcher(viewModel, "a");
+            var other = new drunk.Watcher(viewModel, "c");
+            var count = 0;
+
+            watcher.addAction(function () {
+                count++;
+                viewModel.a++;
+            });
+            other.addAction(spy);
+
+            spyOn(console, 'error');
+            drunk.config.maxFlushCount = 10;
+
+            viewModel.a = 2;
+            viewModel.c = 'd';
+            drunk.flushSync();
+
+            drunk.config.maxFlushCount = 100;
+
+            expect(count).toBe(10);
+            expect(console.error.calls.count()).toBe(1);
+            expect(console.error.calls.argsFor(0)[0]).toContain('"a"');
+            expect(spy).not.toHaveBeenCalled();
+        });
+    });
+
+    describe("batch", function () {
+        beforeEach(function () {
+            drunk.config.renderOptimization = false;
+        });
+
+        afterEach(function () {
+            drunk.config.renderOptimization = true;
+        });
+
+        it("flush once after callback returns", function () {
+            var watcher = new drunk.Watcher(viewModel, "a + b.c");
+            watcher.addAction(spy);
+
+            var result = drunk.batch(function () {
+                viewModel.a = 10;
+                viewModel.b.c = 20;
+
+                drunk.batch(function () {
+                    viewModel.a = 100;
+                });
+
+                expect(spy).not.toHaveBeenCalled();
+                return 'result';
+            });
+
+            expect(result).toBe('result');
+            expect(spy.calls.count()).toBe(1);
+            expect(spy).toHaveBeenCalledWith(120, 3);
+        });
+
+        it("flush after callback throws", function () {
+            var watcher = new drunk.Watcher(viewModel, "a");
+            watcher.addAction(spy);
+
+            expect(function () {
+                viewModel.$transaction(function () {
+                    this.a = 2;
+                    throw new Error('error');
+                });
+            }).toThrowError('error');
+            expect(spy).toHaveBeenCalledWith(2, 1);
+        });
+
+        it("flush after promise resolved", function (done) {
+            var watcher = new drunk.Watcher(viewModel, "a");
+            watcher.addAction(spy);
+
+            viewModel.$transaction(function () {
+                var self = this;
+                self.a = 2;
+                return drunk.Promise.timeout(10).then(function () {
+                    self.a = 3;
+                    return 'done';
+                });
+            }).then(function (result) {
+                expect(result).toBe('done');
+                expect(spy.calls.count()).toBe(1);
+                expect(spy).toHaveBeenCalledWith(3, 1);
+                done();
+            });
+
+            expect(spy).not.toHaveBeenCalled();
+        });
+
+        it("flush deferred watchers in creation order", function () {
+            var order = [];
+
+            new drunk.Watcher(viewModel, "a").addAction(function () {
+                order.push('a');
+            });
+            new drunk.Watcher(viewModel, "b.c").addAction(function () {
+                order.push('b.c');
+            });
+
+            drunk.batch(function () {
+                viewModel.b.c = 20;
+                viewModel.a = 10;
+            });
+
+            expect(order).toEqual(['a', 'b.c']);
+        });
+
+        it("flush deferred watchers by flushSync or timeout", function (done) {
+            var watcher = new drunk.Watcher(viewModel, "a");
+            watcher.addAction(spy);
+
+            spyOn(console, 'warn');
+            drunk.config.batchTimeout = 20;
+
+            viewModel.$transaction(function () {
+                var self = this;
+                self.a = 2;
+                drunk.flushSync();
+                expect(spy).toHaveBeenCalledWith(2, 1);
+
+                self.a = 3;
+                return drunk.Promise.timeout(60).then(function () {
+                    self.a = 4;
+                });
+            }).then(function () {
+                expect(spy.calls.count()).toBe(3);
+                expect(spy).toHaveBeenCalledWith(4, 3);
+                done();
+            });
+
+            drunk.config.batchTimeout = 3000;
+
+            setTimeout(function () {
+                expect(console.warn).toHaveBeenCalled();
+                expect(spy).toHaveBeenCalledWith(3, 2);
+            }, 40);
+        });
+    });
+
     it("normal expression deep watch", function (done) {
         var watcher = new drunk.Watcher(viewModel, "b", true);
         watcher.addAction(function (a, b) {